@@ -0,0 +1,230 @@
+/**
+ * @file pixe.la API batch execution
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+interface BatchOptions {
+  // number of requests sent at once (default: 10)
+  chunkSize?: number;
+}
+
+/**
+ * pixe.la API batch<br/>
+ * <p>
+ * queue pixel, graph and webhook operations and send them concurrently
+ * (UrlFetchApp.fetchAll on Google Apps Script).
+ * create instance by Pixela_.batch method.
+ * </p>
+ * <p>
+ * operation methods validate arguments when queueing and throw
+ * PixelaValidationError immediately, so invalid operation is never sent.
+ * pixel operations look up graph type (once per graph) when queueing,
+ * and throw PixelaError if the lookup fails.
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var batch = pixela.batch({ chunkSize: 20 });
+ * batch.updatePixel(graphID, "20200101", 1);
+ * batch.updatePixel(graphID, "20200102", 2);
+ * var responses = batch.execute();
+ * </pre>
+ */
+class PixelaBatch_ {
+  private client: Client_;
+  private requests: RequestBuilder_;
+  private parse: (response: ClientResponse) => BasicResponse;
+  private graphType: (graphID: string) => string | undefined;
+  private forgetGraph: (graphID: string) => void;
+  private chunkSize: number = 10;
+  private queue: ClientRequest[] = [];
+  // graphs updated or deleted by queued operations
+  private changedGraphIDs: string[] = [];
+
+  constructor(
+    client: Client_,
+    requests: RequestBuilder_,
+    parse: (response: ClientResponse) => BasicResponse,
+    graphType: (graphID: string) => string | undefined,
+    forgetGraph: (graphID: string) => void,
+    options?: BatchOptions
+  ) {
+    this.client = client;
+    this.requests = requests;
+    this.parse = parse;
+    this.graphType = graphType;
+    this.forgetGraph = forgetGraph;
+
+    if (options !== undefined && options.chunkSize !== undefined) {
+      if (!(options.chunkSize >= 1) || options.chunkSize % 1 !== 0) {
+        throw new PixelaValidationError(
+          "chunkSize must be positive integer: " + options.chunkSize,
+          0,
+          "",
+          0
+        );
+      }
+
+      this.chunkSize = options.chunkSize;
+    }
+  }
+
+  /**
+   * number of queued operations<br />
+   * @return {number} number of queued operations
+   */
+  public size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * send queued operations<br />
+   * <p>
+   * failed operations are retried according to retry policy,
+   * and do not throw error even if throwOnError is true.
+   * check isSuccess and error of each response.
+   * queue is cleared after execution.
+   * graph definitions cached by Pixela_ (timezone and type) are cleared
+   * for updated and deleted graphs.
+   * </p>
+   * @return {BasicResponse[]} responses in the same order as operations
+   */
+  public execute(): BasicResponse[] {
+    const queue = this.queue;
+    const changedGraphIDs = this.changedGraphIDs;
+    this.queue = [];
+    this.changedGraphIDs = [];
+
+    const responses = this.client
+      .sendAll(queue, this.chunkSize)
+      .map(response => this.parse(response));
+
+    changedGraphIDs.forEach(graphID => this.forgetGraph(graphID));
+
+    return responses;
+  }
+
+  // graph API operations
+  public createGraph(
+    graph: string | GraphDefinition,
+    graphName?: string,
+    unit?: string,
+    type?: string,
+    color?: string,
+    timezone?: string,
+    selfSufficient?: string,
+    isSecret?: boolean
+  ): PixelaBatch_ {
+    return this.add(
+      this.requests.createGraph(
+        graph,
+        graphName,
+        unit,
+        type,
+        color,
+        timezone,
+        selfSufficient,
+        isSecret
+      )
+    );
+  }
+
+  public updateGraph(graphID: string, update: GraphUpdate): PixelaBatch_ {
+    this.add(this.requests.updateGraph(graphID, update));
+    this.changedGraphIDs.push(graphID);
+
+    return this;
+  }
+
+  public deleteGraph(graphID: string): PixelaBatch_ {
+    this.add(this.requests.deleteGraph(graphID));
+    this.changedGraphIDs.push(graphID);
+
+    return this;
+  }
+
+  // pixel API operations
+  public createPixel(
+    graphID: string,
+    dateStr: string,
+    quantity: number,
+    optionalData?: object
+  ): PixelaBatch_ {
+    return this.add(
+      this.requests.createPixel(
+        graphID,
+        dateStr,
+        quantity,
+        optionalData,
+        this.graphType(graphID)
+      )
+    );
+  }
+
+  public updatePixel(
+    graphID: string,
+    dateStr: string,
+    quantity: number,
+    optionalData?: object
+  ): PixelaBatch_ {
+    return this.add(
+      this.requests.updatePixel(
+        graphID,
+        dateStr,
+        quantity,
+        optionalData,
+        this.graphType(graphID)
+      )
+    );
+  }
+
+  public addPixel(graphID: string, quantity: number): PixelaBatch_ {
+    return this.add(
+      this.requests.addPixel(graphID, quantity, this.graphType(graphID))
+    );
+  }
+
+  public subtractPixel(graphID: string, quantity: number): PixelaBatch_ {
+    return this.add(
+      this.requests.subtractPixel(graphID, quantity, this.graphType(graphID))
+    );
+  }
+
+  public incPixel(graphID: string): PixelaBatch_ {
+    return this.add(this.requests.incPixel(graphID));
+  }
+
+  public decPixel(graphID: string): PixelaBatch_ {
+    return this.add(this.requests.decPixel(graphID));
+  }
+
+  public deletePixel(graphID: string, dateStr: string): PixelaBatch_ {
+    return this.add(this.requests.deletePixel(graphID, dateStr));
+  }
+
+  // webhook API operations
+  public createWebhook(
+    graphID: string,
+    webhookType: WebhookType,
+    quantity?: number
+  ): PixelaBatch_ {
+    return this.add(
+      this.requests.createWebhook(graphID, webhookType, quantity)
+    );
+  }
+
+  public invokeWebhook(webhookHash: string): PixelaBatch_ {
+    return this.add(this.requests.invokeWebhook(webhookHash));
+  }
+
+  public deleteWebhook(webhookHash: string): PixelaBatch_ {
+    return this.add(this.requests.deleteWebhook(webhookHash));
+  }
+
+  private add(request: ClientRequest): PixelaBatch_ {
+    this.queue.push(request);
+
+    return this;
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * @file pixe.la API GET response cache
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+type CacheEndpoint = "graphs" | "svg" | "pixels" | "stats" | "pixel";
+
+interface CacheOptions {
+  // TTL (seconds) of each endpoint. 0 disables cache of the endpoint
+  ttl?: { [endpoint in CacheEndpoint]?: number };
+  // persistent store (default: CacheService user cache on Google Apps Script)
+  store?: ResponseCacheStore | null;
+  // use CacheService script cache shared by every user of the script
+  // instead of user cache (default: false)
+  shared?: boolean;
+}
+
+/**
+ * persistent store of cached responses<br/>
+ */
+interface ResponseCacheStore {
+  get(key: string): string | null;
+  put(key: string, value: string, expirationInSeconds: number): void;
+}
+
+// generation key of entries of all graphs (graph IDs never contain "*")
+const ROOT_GENERATION_: string = "*";
+
+const DEFAULT_CACHE_TTL_: { [endpoint in CacheEndpoint]: number } = {
+  graphs: 300,
+  svg: 300,
+  pixels: 60,
+  stats: 60,
+  pixel: 0
+};
+
+/**
+ * GET response cache<br/>
+ * <p>
+ * in-memory cache backed by persistent store, keyed by token hash and URL.
+ * entries of each graph belong to a generation, and mutating requests
+ * invalidate graph entries by replacing its generation with new unique value.
+ * entries of all graphs also belong to a root generation, which is
+ * replaced by mutating requests of unknown graph (e.g. invoke-webhook).
+ * generation evicted from store is also replaced (never reused), so that
+ * entries invalidated before eviction don't become valid again.
+ * internal use of Client_ class
+ * </p>
+ */
+class ResponseCache_ {
+  private static readonly prefix: string = "pixela.cache.";
+  // CacheService limits
+  private static readonly maxKeyLength: number = 250;
+  private static readonly maxExpiration: number = 21600;
+
+  private ttl: { [endpoint in CacheEndpoint]: number };
+  private store: ResponseCacheStore | null;
+  private memory: { [key: string]: { expiresAt: number; value: string } } = {};
+  private scope: string = "";
+
+  constructor(options: CacheOptions, token: string) {
+    this.ttl = { ...DEFAULT_CACHE_TTL_, ...options.ttl };
+    this.setToken(token);
+
+    if (options.store !== undefined) {
+      this.store = options.store;
+    } else if (typeof CacheService !== "undefined") {
+      this.store = options.shared
+        ? CacheService.getScriptCache()
+        : CacheService.getUserCache();
+    } else {
+      this.store = null;
+    }
+  }
+
+  /**
+   * set token which scopes entries<br />
+   * @param {string} token pixe.la token
+   * @return {void}
+   */
+  public setToken(token: string): void {
+    this.scope = this.hash(token);
+  }
+
+  /**
+   * get cached response<br />
+   * @param {ClientRequest} request request
+   * @return {ClientResponse} cached response or null
+   */
+  public get(request: ClientRequest): ClientResponse | null {
+    const key = this.entryKey(request);
+
+    if (key === null) {
+      return null;
+    }
+
+    const value = this.read(key);
+
+    if (value === null) {
+      return null;
+    }
+
+    return {
+      ...(JSON.parse(value) as ClientResponse),
+      attempts: 0,
+      cached: true
+    };
+  }
+
+  /**
+   * cache successful GET response<br />
+   * @param {ClientRequest} request request
+   * @param {ClientResponse} response response
+   * @return {void}
+   */
+  public put(request: ClientRequest, response: ClientResponse): void {
+    const key = this.entryKey(request);
+
+    if (key === null || response.status !== 200) {
+      return;
+    }
+
+    const ttl = this.ttl[request.endpoint as CacheEndpoint];
+    const value = JSON.stringify(response);
+
+    // refresh generations so that they outlive their entries
+    [ROOT_GENERATION_, request.graphID].forEach(id =>
+      this.write(this.generationKey(id), this.generation(id), this.maxTTL())
+    );
+    this.write(key, value, ttl);
+  }
+
+  /**
+   * invalidate entries of graph<br />
+   * <p>
+   * graph list entries are also invalidated.
+   * </p>
+   * @param {string} graphID graph ID
+   * @return {void}
+   */
+  public invalidate(graphID: string): void {
+    [graphID, undefined].forEach(id => this.renewGeneration(id));
+  }
+
+  /**
+   * invalidate entries of all graphs<br />
+   * @return {void}
+   */
+  public invalidateAll(): void {
+    this.renewGeneration(ROOT_GENERATION_);
+  }
+
+  private entryKey(request: ClientRequest): string | null {
+    if (
+      request.method !== "get" ||
+      request.endpoint === undefined ||
+      !(this.ttl[request.endpoint] > 0)
+    ) {
+      return null;
+    }
+
+    return (
+      ResponseCache_.prefix +
+      this.scope +
+      "." +
+      this.generation(ROOT_GENERATION_) +
+      "." +
+      this.generation(request.graphID) +
+      "." +
+      request.url
+    );
+  }
+
+  private generationKey(graphID?: string): string {
+    return (
+      ResponseCache_.prefix + this.scope + ".generation." + (graphID || "")
+    );
+  }
+
+  private generation(graphID?: string): string {
+    const value = this.read(this.generationKey(graphID));
+
+    return value !== null ? value : this.renewGeneration(graphID);
+  }
+
+  private renewGeneration(graphID?: string): string {
+    const generation =
+      Date.now().toString(36) +
+      Math.random()
+        .toString(36)
+        .slice(2, 8);
+
+    this.write(this.generationKey(graphID), generation, this.maxTTL());
+
+    return generation;
+  }
+
+  private maxTTL(): number {
+    return Math.max(
+      ...Object.keys(this.ttl).map(
+        endpoint => this.ttl[endpoint as CacheEndpoint]
+      )
+    );
+  }
+
+  // SHA-256 on Google Apps Script, FNV-1a 32bit hash of in-memory cache on other runtimes
+  private hash(value: string): string {
+    if (typeof Utilities !== "undefined") {
+      return Utilities.base64EncodeWebSafe(
+        Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, value)
+      ).slice(0, 22);
+    }
+
+    let hash = 0x811c9dc5;
+
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+
+    return ("0000000" + hash.toString(16)).slice(-8);
+  }
+
+  private read(key: string): string | null {
+    const entry = this.memory[key];
+
+    if (entry !== undefined && entry.expiresAt > Date.now()) {
+      return entry.value;
+    }
+
+    if (this.store === null || key.length > ResponseCache_.maxKeyLength) {
+      return null;
+    }
+
+    return this.store.get(key);
+  }
+
+  private write(key: string, value: string, ttl: number): void {
+    this.memory[key] = { expiresAt: Date.now() + ttl * 1000, value: value };
+
+    if (this.store === null || key.length > ResponseCache_.maxKeyLength) {
+      return;
+    }
+
+    try {
+      this.store.put(
+        key,
+        value,
+        Math.min(Math.ceil(ttl), ResponseCache_.maxExpiration)
+      );
+    } catch (e) {
+      // value too large for store is kept only in memory
+    }
+  }
+}
@@ -5,6 +5,15 @@
  * @see {@link https://github.com/noissefnoc/gas-library-pixela}
  */
 
+interface ClientResponse extends TransportResponse {
+  // request URL (token redacted)
+  url: string;
+  // number of attempts including retries (0 when cached)
+  attempts: number;
+  // response is returned from cache
+  cached?: boolean;
+}
+
 /**
  * pixe.la API basic Client<br/>
  * <p>
@@ -14,71 +23,328 @@
  */
 class Client_ {
   private token: string;
+  private transport: Transport;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY_;
+  private headers: { [name: string]: string } = {};
+  private timeout?: number;
+  private rateLimiter: RateLimiter_ | null = null;
+  private middlewares: Middleware[] = [];
+  private cache: ResponseCache_ | null = null;
+
+  constructor(token: string, options?: ClientOptions) {
+    const opts: ClientOptions = options !== undefined ? options : {};
 
-  constructor(token: string) {
     this.token = token;
+    this.transport =
+      opts.transport !== undefined ? opts.transport : new UrlFetchTransport_();
+    this.timeout = opts.timeout;
+
+    if (opts.headers !== undefined) {
+      this.headers = { ...opts.headers };
+    }
+
+    if (opts.userAgent !== undefined) {
+      this.headers["User-Agent"] = opts.userAgent;
+    }
+
+    if (opts.retryPolicy !== undefined) {
+      this.setRetryPolicy(opts.retryPolicy);
+    }
+
+    if (opts.rateLimit !== undefined) {
+      this.rateLimiter = new RateLimiter_(
+        opts.rateLimit,
+        opts.username !== undefined ? opts.username : ""
+      );
+    }
+
+    if (opts.middlewares !== undefined) {
+      this.middlewares = opts.middlewares.slice();
+    }
+
+    if (opts.cache !== undefined && opts.cache !== false) {
+      this.cache = new ResponseCache_(
+        opts.cache === true ? {} : opts.cache,
+        token
+      );
+    }
   }
 
-  public get(url: string): string {
-    const headers = { "X-USER-TOKEN": this.token };
-    const options = {
-      method: "get",
-      headers: headers,
-      muteHttpExceptions: true
-    };
+  public setToken(token: string): void {
+    this.token = token;
 
-    const response = UrlFetchApp.fetch(url, options);
+    if (this.cache !== null) {
+      this.cache.setToken(token);
+    }
+  }
 
-    return response.getContentText();
+  public setTransport(transport: Transport): void {
+    this.transport = transport;
   }
 
-  public post(url: string, payload: object): string {
-    const headers = {
-      "X-USER-TOKEN": this.token,
-      "Content-Type": "application/json"
-    };
+  public setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY_, ...policy };
+  }
 
-    const options = {
-      method: "post",
-      payload: JSON.stringify(payload),
-      headers: headers,
-      muteHttpExceptions: true
-    };
+  public use(middleware: Middleware): void {
+    this.middlewares.push(middleware);
+  }
 
-    const response = UrlFetchApp.fetch(url, options);
+  public invalidateCache(): void {
+    if (this.cache !== null) {
+      this.cache.invalidateAll();
+    }
+  }
 
-    return response.getContentText();
+  public getQuotaStatus(): QuotaStatus | null {
+    if (this.rateLimiter === null) {
+      return null;
+    }
+
+    return this.rateLimiter.getStatus();
   }
 
-  public put(url: string, payload?: object): string {
-    let headers = {
-      "X-USER-TOKEN": this.token,
-      "Content-Type": "application/json"
-    };
+  public get(url: string): ClientResponse {
+    return this.send({ method: "get", url: url });
+  }
 
-    const options = {
-      method: "put",
-      payload: JSON.stringify(payload),
-      headers: headers,
-      muteHttpExceptions: true
-    };
+  public post(url: string, payload?: object): ClientResponse {
+    return this.send({ method: "post", url: url, payload: payload });
+  }
+
+  public put(url: string, payload?: object): ClientResponse {
+    return this.send({ method: "put", url: url, payload: payload });
+  }
+
+  public delete(url: string): ClientResponse {
+    return this.send({ method: "delete", url: url });
+  }
+
+  public send(request: ClientRequest): ClientResponse {
+    return this.sendAll([request], 1)[0];
+  }
+
+  /**
+   * send requests concurrently<br />
+   * <p>
+   * requests are sent in chunks of chunkSize (up to per-second limit of
+   * rate limiter), and retryable responses are sent again according to
+   * retry policy.
+   * cached GET responses are returned without request.
+   * </p>
+   * @param {ClientRequest[]} requests requests
+   * @param {number} chunkSize number of requests sent at once
+   * @return {ClientResponse[]} responses in the same order as requests
+   */
+  public sendAll(
+    requests: ClientRequest[],
+    chunkSize: number
+  ): ClientResponse[] {
+    const responses: ClientResponse[] = [];
+    const misses: number[] = [];
+    const size =
+      this.rateLimiter !== null
+        ? this.rateLimiter.limitChunkSize(chunkSize)
+        : chunkSize;
 
-    const response = UrlFetchApp.fetch(url, options);
+    requests.forEach((request, index) => {
+      const cached = this.cache !== null ? this.cache.get(request) : null;
 
-    return response.getContentText();
+      if (cached !== null) {
+        responses[index] = cached;
+      } else {
+        misses.push(index);
+      }
+    });
+
+    for (let i = 0; i < misses.length; i += size) {
+      const chunk = misses.slice(i, i + size);
+      const chunkResponses = this.sendChunk(
+        chunk.map(index => requests[index])
+      );
+
+      chunk.forEach((index, j) => {
+        responses[index] = chunkResponses[j];
+        this.updateCache(requests[index], chunkResponses[j]);
+      });
+    }
+
+    return responses;
   }
 
-  public delete(url: string) {
-    const headers = { "X-USER-TOKEN": this.token };
+  private sendChunk(requests: ClientRequest[]): ClientResponse[] {
+    const transportRequests = requests.map(request =>
+      this.beforeRequest(this.buildRequest(request))
+    );
+    const results: ClientResponse[] = [];
+    const startedAt = Date.now();
+    const retry = new Retry_(this.retryPolicy);
+    let pending: number[] = requests.map((request, index) => index);
+    let attempts = 0;
+
+    while (pending.length > 0) {
+      // requests over client-side quota fail without being sent
+      const quota = this.acquire(pending.length);
 
-    const options = {
-      method: "delete",
-      headers: headers,
-      muteHttpExceptions: true
+      pending.slice(quota.permitted).forEach(index => {
+        results[index] = this.afterResponse(
+          transportRequests[index],
+          {
+            status: 429,
+            headers: {},
+            body: JSON.stringify({ message: quota.denied, isSuccess: false }),
+            url: this.redact(transportRequests[index].url),
+            attempts: attempts
+          },
+          Date.now() - startedAt
+        );
+      });
+      pending = pending.slice(0, quota.permitted);
+
+      if (pending.length === 0) {
+        break;
+      }
+
+      const responses = this.fetch(
+        pending.map(index => transportRequests[index])
+      );
+      attempts++;
+
+      const retryable = pending.filter((index, i) =>
+        retry.isRetryable(transportRequests[index].method, responses[i])
+      );
+      const delay = retryable.length > 0 ? retry.nextDelay(attempts) : -1;
+
+      pending.forEach((index, i) => {
+        if (delay < 0 || retryable.indexOf(index) === -1) {
+          results[index] = this.afterResponse(
+            transportRequests[index],
+            {
+              ...responses[i],
+              url: this.redact(transportRequests[index].url),
+              attempts: attempts
+            },
+            Date.now() - startedAt
+          );
+        }
+      });
+
+      if (delay < 0) {
+        break;
+      }
+
+      pending = retryable;
+      this.transport.sleep(delay);
+    }
+
+    return results;
+  }
+
+  private updateCache(request: ClientRequest, response: ClientResponse): void {
+    if (this.cache === null) {
+      return;
+    }
+
+    if (request.method === "get") {
+      this.cache.put(request, response);
+    } else if (request.graphID !== undefined) {
+      this.cache.invalidate(request.graphID);
+    } else {
+      // e.g. invoke-webhook updates a graph which is not known by URL
+      this.cache.invalidateAll();
+    }
+  }
+
+  private beforeRequest(request: TransportRequest): TransportRequest {
+    return this.middlewares.reduce((current, middleware) => {
+      if (middleware.beforeRequest === undefined) {
+        return current;
+      }
+
+      const modified = middleware.beforeRequest(current);
+
+      return modified !== undefined ? modified : current;
+    }, request);
+  }
+
+  private afterResponse(
+    request: TransportRequest,
+    response: ClientResponse,
+    elapsed: number
+  ): ClientResponse {
+    return this.middlewares.reduce((current, middleware) => {
+      if (middleware.afterResponse === undefined) {
+        return current;
+      }
+
+      const modified = middleware.afterResponse(request, current, elapsed);
+
+      return modified !== undefined ? modified : current;
+    }, response);
+  }
+
+  // returns number of permitted requests and reason of denial of the rest
+  private acquire(count: number): { permitted: number; denied: string } {
+    const limiter = this.rateLimiter;
+
+    if (limiter === null) {
+      return { permitted: count, denied: "" };
+    }
+
+    try {
+      const permitted = limiter.acquire(
+        milliseconds => this.transport.sleep(milliseconds),
+        count
+      );
+
+      return {
+        permitted: permitted,
+        denied:
+          permitted < count
+            ? "daily request quota exceeded: " +
+              limiter.getStatus().requestsPerDay
+            : ""
+      };
+    } catch (e) {
+      return {
+        permitted: 0,
+        denied: "failed to update request quota: " + (e as Error).message
+      };
+    }
+  }
+
+  private fetch(requests: TransportRequest[]): TransportResponse[] {
+    if (requests.length === 1) {
+      return [this.transport.fetch(requests[0])];
+    }
+
+    return this.transport.fetchAll(requests);
+  }
+
+  private buildRequest(request: ClientRequest): TransportRequest {
+    const transportRequest: TransportRequest = {
+      method: request.method,
+      url: request.url,
+      headers: { ...this.headers, "X-USER-TOKEN": this.token }
     };
 
-    const response = UrlFetchApp.fetch(url, options);
+    if (this.timeout !== undefined) {
+      transportRequest.timeout = this.timeout;
+    }
+
+    if (request.method === "post" || request.method === "put") {
+      transportRequest.headers["Content-Type"] = "application/json";
+      transportRequest.payload = JSON.stringify(request.payload);
+    }
+
+    return transportRequest;
+  }
+
+  private redact(url: string): string {
+    if (this.token === "") {
+      return url;
+    }
 
-    return response.getContentText();
+    return url.split(this.token).join("***");
   }
 }
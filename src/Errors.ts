@@ -0,0 +1,151 @@
+/**
+ * @file pixe.la API errors
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+/**
+ * pixe.la API error<br/>
+ * <p>
+ * base class of errors raised by Pixela_ methods.
+ * message is pixe.la response `message` when response has it.
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * try {
+ *   pixela.getPixel(graphID, dateStr);
+ * } catch (e) {
+ *   if (e instanceof PixelaNotFoundError) {
+ *     Logger.log("pixel not found: " + e.url);
+ *   }
+ * }
+ * </pre>
+ */
+class PixelaError extends Error {
+  // HTTP status code (0 when request was not sent)
+  public status: number;
+  // request URL (token redacted)
+  public url: string;
+  // number of attempts including retries
+  public attempts: number;
+
+  constructor(message: string, status: number, url: string, attempts: number) {
+    super(message);
+    this.name = "PixelaError";
+    this.status = status;
+    this.url = url;
+    this.attempts = attempts;
+  }
+
+  /**
+   * create error according to HTTP status code<br />
+   * @param {ClientResponse} response client response
+   * @param {string} message optional: pixe.la response message
+   * @return {PixelaError} error instance
+   */
+  public static fromResponse(
+    response: ClientResponse,
+    message?: string
+  ): PixelaError {
+    const status = response.status;
+    const errorMessage =
+      message !== undefined
+        ? message
+        : "unexpected response (HTTP " + status + ")";
+    const args: [string, number, string, number] = [
+      errorMessage,
+      status,
+      response.url,
+      response.attempts
+    ];
+
+    if (status === 401 || status === 403) {
+      return new PixelaAuthError(...args);
+    }
+
+    if (status === 404) {
+      return new PixelaNotFoundError(...args);
+    }
+
+    if (
+      status === 429 ||
+      (status === 503 && errorMessage.indexOf("Please retry") !== -1)
+    ) {
+      return new PixelaRateLimitError(...args);
+    }
+
+    if (status === 400 || status === 409 || status === 422) {
+      return new PixelaValidationError(...args);
+    }
+
+    if (status >= 500) {
+      return new PixelaServerError(...args);
+    }
+
+    return new PixelaError(...args);
+  }
+}
+
+/**
+ * authentication error (HTTP 401/403)<br/>
+ */
+class PixelaAuthError extends PixelaError {
+  constructor(message: string, status: number, url: string, attempts: number) {
+    super(message, status, url, attempts);
+    this.name = "PixelaAuthError";
+  }
+}
+
+/**
+ * user, graph, pixel or webhook not found error (HTTP 404)<br/>
+ */
+class PixelaNotFoundError extends PixelaError {
+  constructor(message: string, status: number, url: string, attempts: number) {
+    super(message, status, url, attempts);
+    this.name = "PixelaNotFoundError";
+  }
+}
+
+/**
+ * rate limit error (HTTP 429 or pixe.la 503 rejection)<br/>
+ */
+class PixelaRateLimitError extends PixelaError {
+  constructor(message: string, status: number, url: string, attempts: number) {
+    super(message, status, url, attempts);
+    this.name = "PixelaRateLimitError";
+  }
+}
+
+/**
+ * request validation error (HTTP 400/409/422)<br/>
+ * <p>
+ * problems has every problem found by client-side validation
+ * (empty when error is pixe.la response).
+ * </p>
+ */
+class PixelaValidationError extends PixelaError {
+  public problems: string[];
+
+  constructor(
+    message: string,
+    status: number,
+    url: string,
+    attempts: number,
+    problems: string[] = []
+  ) {
+    super(message, status, url, attempts);
+    this.name = "PixelaValidationError";
+    this.problems = problems;
+  }
+}
+
+/**
+ * pixe.la server error (HTTP 5xx)<br/>
+ */
+class PixelaServerError extends PixelaError {
+  constructor(message: string, status: number, url: string, attempts: number) {
+    super(message, status, url, attempts);
+    this.name = "PixelaServerError";
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * @file pixe.la pixel export
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+// "number" (default), "string" (as returned by pixe.la) or formatter
+type PixelExportQuantityFormat =
+  | "number"
+  | "string"
+  | ((quantity: string) => SheetCell);
+
+interface PixelExportOptions {
+  // date range (default: whole history until today. without from,
+  // pixels are fetched back until all pixels counted by get-graph-stat are found
+  // or no pixel is found in a few years)
+  from?: string | Date;
+  to?: string | Date;
+  quantityFormat?: PixelExportQuantityFormat;
+  // format of date column (default: yyyyMMdd)
+  dateFormat?: "yyyyMMdd" | "yyyy-MM-dd";
+}
+
+interface PixelSheetExportOptions extends PixelExportOptions {
+  // fetch only pixels since last date in sheet and merge them (default: false)
+  incremental?: boolean;
+}
+
+interface PixelDriveExportOptions extends PixelExportOptions {
+  // name of new file (default: <graphID>.csv)
+  fileName?: string;
+  // folder of new file (default: root folder)
+  folderId?: string;
+  // existing file to overwrite instead of creating new file
+  fileId?: string;
+}
+
+/**
+ * exported pixels<br/>
+ * <p>
+ * header is date, quantity and optionalData keys in order of appearance.
+ * rows are sorted by date.
+ * </p>
+ */
+interface PixelTable {
+  header: string[];
+  rows: SheetCell[][];
+}
+
+interface PixelSheetExportResult {
+  // number of pixels fetched from pixe.la
+  fetched: number;
+  // number of rows in sheet (excluding header)
+  rows: number;
+}
+
+interface PixelExportRecord {
+  date: string;
+  values: { [column: string]: SheetCell };
+}
+
+const PIXEL_EXPORT_QUANTITY_FORMATS_: string[] = ["number", "string"];
+const PIXEL_EXPORT_DATE_FORMATS_: string[] = ["yyyyMMdd", "yyyy-MM-dd"];
+// days of one get-graph-pixels request
+const PIXEL_EXPORT_WINDOW_DAYS_: number = 365;
+// oldest date of export without from
+const PIXEL_EXPORT_FLOOR_DATE_: string = "19700101";
+// consecutive windows without pixels which end export without from
+const PIXEL_EXPORT_MAX_EMPTY_WINDOWS_: number = 3;
+
+/**
+ * pixel export<br/>
+ * <p>
+ * fetch pixels with quantity and optionalData by get-graph-pixels API
+ * one year at a time, and flatten optionalData keys into columns.
+ * internal use of Pixela_ class
+ * </p>
+ */
+class PixelExport_ {
+  private pixela: Pixela_;
+  private toDateStr: (graphID: string, date: string | Date) => string;
+
+  constructor(
+    pixela: Pixela_,
+    toDateStr: (graphID: string, date: string | Date) => string
+  ) {
+    this.pixela = pixela;
+    this.toDateStr = toDateStr;
+  }
+
+  public toTable(graphID: string, options: PixelExportOptions): PixelTable {
+    return this.table(this.fetch(graphID, options), [], options);
+  }
+
+  public toCSV(graphID: string, options: PixelExportOptions): string {
+    const table = this.toTable(graphID, options);
+    const rows: SheetCell[][] = [table.header, ...table.rows];
+
+    return rows
+      .map(row => row.map(cell => this.csvField(cell)).join(","))
+      .join("\r\n");
+  }
+
+  public toDrive(graphID: string, options: PixelDriveExportOptions): string {
+    const csv = this.toCSV(graphID, options);
+
+    if (options.fileId !== undefined) {
+      return DriveApp.getFileById(options.fileId)
+        .setContent(csv)
+        .getId();
+    }
+
+    const fileName =
+      options.fileName !== undefined ? options.fileName : graphID + ".csv";
+    const folder =
+      options.folderId !== undefined
+        ? DriveApp.getFolderById(options.folderId)
+        : DriveApp.getRootFolder();
+
+    return folder.createFile(fileName, csv, "text/csv").getId();
+  }
+
+  public toSheet(
+    graphID: string,
+    sheet: SheetLike,
+    options: PixelSheetExportOptions
+  ): PixelSheetExportResult {
+    const lastRow = sheet.getLastRow();
+    const lastColumn = sheet.getLastColumn();
+    const existing =
+      options.incremental && lastRow > 1 && lastColumn > 0
+        ? this.readSheet(sheet, lastRow, lastColumn)
+        : { header: [], records: [] };
+    let fetchOptions = options;
+
+    if (existing.records.length > 0) {
+      // last date is fetched again because it may be updated after export
+      const last = existing.records[existing.records.length - 1].date;
+      const from =
+        options.from !== undefined
+          ? this.toDateStr(graphID, options.from)
+          : last;
+
+      fetchOptions = { ...options, from: from > last ? from : last };
+    }
+
+    const fetched = this.fetch(graphID, fetchOptions);
+    const records: { [date: string]: PixelExportRecord } = {};
+
+    existing.records
+      .concat(fetched)
+      .forEach(record => (records[record.date] = record));
+
+    const table = this.table(
+      Object.keys(records)
+        .sort()
+        .map(date => records[date]),
+      existing.header,
+      options
+    );
+    const values: SheetCell[][] = [table.header, ...table.rows];
+    const numRows = Math.max(values.length, lastRow);
+    const numColumns = Math.max(table.header.length, lastColumn);
+
+    // cells of previous export out of new table are cleared
+    for (let row = 0; row < numRows; row++) {
+      values[row] = values[row] !== undefined ? values[row] : [];
+
+      for (let column = 0; column < numColumns; column++) {
+        if (values[row][column] === undefined) {
+          values[row][column] = "";
+        }
+      }
+    }
+
+    sheet.getRange(1, 1, numRows, numColumns).setValues(values);
+
+    return { fetched: fetched.length, rows: table.rows.length };
+  }
+
+  private fetch(
+    graphID: string,
+    options: PixelExportOptions
+  ): PixelExportRecord[] {
+    this.validate(options);
+
+    const from =
+      options.from !== undefined
+        ? this.toDateStr(graphID, options.from)
+        : undefined;
+    const to = this.toDateStr(
+      graphID,
+      options.to !== undefined ? options.to : new Date()
+    );
+    const records: PixelExportRecord[] = [];
+    // without from, fetch back until all pixels of graph are fetched.
+    // pixels after `to` are counted but never fetched, so the loop also
+    // stops after consecutive windows without pixels
+    const total =
+      from === undefined ? this.totalPixelsCount(graphID) : Infinity;
+    const maxEmptyWindows =
+      from === undefined ? PIXEL_EXPORT_MAX_EMPTY_WINDOWS_ : Infinity;
+    const floor = from !== undefined ? from : PIXEL_EXPORT_FLOOR_DATE_;
+    let emptyWindows = 0;
+    let end = to;
+
+    while (
+      end >= floor &&
+      records.length < total &&
+      emptyWindows < maxEmptyWindows
+    ) {
+      let start = shiftPixelDate_(end, 1 - PIXEL_EXPORT_WINDOW_DAYS_);
+      start = floor > start ? floor : start;
+
+      const result = this.pixela.getGraphPixelsDate(graphID, start, end, true);
+
+      // failed response of throwOnError: false
+      if (!result.isSuccess) {
+        throw result.error;
+      }
+
+      const pixels = result.pixels || [];
+      emptyWindows = pixels.length > 0 ? 0 : emptyWindows + 1;
+
+      pixels.forEach(pixel => {
+        const values: { [column: string]: SheetCell } = {
+          quantity: this.quantity(pixel.quantity, options.quantityFormat)
+        };
+        const optionalData: unknown = pixel.optionalData;
+
+        if (typeof optionalData === "object" && optionalData !== null) {
+          const fields = optionalData as { [key: string]: unknown };
+
+          for (let key in fields) {
+            values[this.column(key)] = this.cell(fields[key]);
+          }
+        } else if (optionalData !== undefined) {
+          // optionalData which is not JSON
+          values["optionalData"] = this.cell(optionalData);
+        }
+
+        records.push({ date: pixel.date, values: values });
+      });
+
+      end = shiftPixelDate_(start, -1);
+    }
+
+    return records.sort((a, b) => (a.date < b.date ? -1 : 1));
+  }
+
+  private totalPixelsCount(graphID: string): number {
+    const stat = this.pixela.getGraphStat(graphID);
+
+    // failed response of throwOnError: false
+    if (!stat.isSuccess) {
+      throw stat.error;
+    }
+
+    return stat.totalPixelsCount;
+  }
+
+  private table(
+    records: PixelExportRecord[],
+    header: string[],
+    options: PixelExportOptions
+  ): PixelTable {
+    const columns = ["date", "quantity"];
+
+    header
+      .concat(...records.map(record => Object.keys(record.values)))
+      .forEach(column => {
+        if (columns.indexOf(column) === -1) {
+          columns.push(column);
+        }
+      });
+
+    return {
+      header: columns,
+      rows: records.map(record =>
+        columns.map(column =>
+          column === "date"
+            ? this.date(record.date, options.dateFormat)
+            : record.values[column] !== undefined
+            ? record.values[column]
+            : ""
+        )
+      )
+    };
+  }
+
+  private readSheet(
+    sheet: SheetLike,
+    lastRow: number,
+    lastColumn: number
+  ): { header: string[]; records: PixelExportRecord[] } {
+    const values = sheet.getRange(1, 1, lastRow, lastColumn).getValues();
+    const header = values[0].map(cell => String(cell));
+    const timezone = spreadsheetTimezone_(sheet);
+
+    if (header[0] !== "date" || header[1] !== "quantity") {
+      throwIfInvalid_("sheet", [
+        "sheet must start with date and quantity columns of previous export: " +
+          header.slice(0, 2).join(",")
+      ]);
+    }
+
+    const records = values
+      .slice(1)
+      .filter(row => row[0] !== "" && row[0] !== null)
+      .map(row => {
+        const record: PixelExportRecord = {
+          date: parsePixelDate_(row[0], timezone),
+          values: {}
+        };
+
+        header.forEach((column, index) => {
+          if (index > 0 && column !== "") {
+            record.values[column] = row[index];
+          }
+        });
+
+        return record;
+      });
+
+    return {
+      header: header.filter(column => column !== ""),
+      records: records.sort((a, b) => (a.date < b.date ? -1 : 1))
+    };
+  }
+
+  private validate(options: PixelExportOptions): void {
+    const problems: string[] = [];
+
+    if (
+      typeof options.quantityFormat !== "function" &&
+      options.quantityFormat !== undefined &&
+      PIXEL_EXPORT_QUANTITY_FORMATS_.indexOf(options.quantityFormat) === -1
+    ) {
+      problems.push(
+        "quantityFormat must be " +
+          PIXEL_EXPORT_QUANTITY_FORMATS_.join("/") +
+          " or function: " +
+          options.quantityFormat
+      );
+    }
+
+    if (
+      options.dateFormat !== undefined &&
+      PIXEL_EXPORT_DATE_FORMATS_.indexOf(options.dateFormat) === -1
+    ) {
+      problems.push(
+        "dateFormat must be one of " +
+          PIXEL_EXPORT_DATE_FORMATS_.join("/") +
+          ": " +
+          options.dateFormat
+      );
+    }
+
+    (["from", "to"] as const).forEach(name => {
+      const value = options[name];
+
+      if (typeof value === "string" && !isCalendarDate_(value)) {
+        problems.push(name + " must be date (yyyyMMdd): " + value);
+      }
+    });
+
+    throwIfInvalid_("export options", problems);
+  }
+
+  private quantity(
+    quantity: string,
+    format: PixelExportQuantityFormat | undefined
+  ): SheetCell {
+    if (typeof format === "function") {
+      return format(quantity);
+    }
+
+    return format === "string" ? quantity : Number(quantity);
+  }
+
+  private date(date: string, format: string | undefined): string {
+    return format === "yyyy-MM-dd"
+      ? date.slice(0, 4) + "-" + date.slice(4, 6) + "-" + date.slice(6, 8)
+      : date;
+  }
+
+  // optionalData keys which conflict with date and quantity are prefixed
+  private column(key: string): string {
+    return key === "date" || key === "quantity" ? "optionalData." + key : key;
+  }
+
+  private cell(value: unknown): SheetCell {
+    if (value === null || value === undefined) {
+      return "";
+    }
+
+    return typeof value === "number" || typeof value === "boolean"
+      ? value
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  }
+
+  private csvField(value: SheetCell): string {
+    const field = value === null || value === undefined ? "" : String(value);
+
+    return /[",\r\n]/.test(field)
+      ? '"' + field.replace(/"/g, '""') + '"'
+      : field;
+  }
+}
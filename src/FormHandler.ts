@@ -0,0 +1,561 @@
+/**
+ * @file pixe.la Google Forms submission handler
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+// "add": add quantity to pixel of the date, "overwrite": replace pixel
+type FormPixelMode = "add" | "overwrite";
+
+interface FormMapping {
+  // graph ID, or question whose answer selects graph
+  graphID?: string;
+  graphIDQuestion?: string;
+  // answer of graphIDQuestion to graph ID (default: answer is graph ID)
+  graphIDs?: { [answer: string]: string };
+  // question of date or date-time (default: date of submission in graph timezone).
+  // date-time with offset (ISO 8601) is converted in graph timezone
+  dateQuestion?: string;
+  // question of quantity, or constant quantity (default: 1)
+  quantityQuestion?: string;
+  quantity?: number;
+  // optionalData field to question
+  optionalDataQuestions?: { [field: string]: string };
+  // default: add
+  mode?: FormPixelMode;
+  // question of respondent email (default: email collected by form,
+  // second column of spreadsheet event when it is email address)
+  emailQuestion?: string;
+  // send email to respondent when answer can't be recorded (default: true)
+  notifyOnFailure?: boolean;
+}
+
+/**
+ * form submission<br/>
+ * <p>
+ * answers are keyed by question title.
+ * form submit events of form and spreadsheet are converted into it.
+ * </p>
+ */
+interface FormSubmission {
+  answers: { [question: string]: string };
+  timestamp?: Date;
+  email?: string;
+  formTitle?: string;
+}
+
+type FormSubmitEvent =
+  | GoogleAppsScript.Events.FormsOnFormSubmit
+  | GoogleAppsScript.Events.SheetsOnFormSubmit
+  | FormSubmission;
+
+interface FormSubmissionResult {
+  isSuccess: boolean;
+  graphID?: string;
+  date?: string;
+  // quantity of pixel after submission
+  quantity?: number;
+  error?: Error;
+  // failure email was sent to respondent
+  notified: boolean;
+}
+
+const FORM_PIXEL_MODES_: string[] = ["add", "overwrite"];
+const FORM_EMAIL_PATTERN_: RegExp = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Google Forms submission handler<br/>
+ * <p>
+ * record pixel from form answers by declarative mapping.
+ * installable trigger can't call library function, so trigger calls handler
+ * function of script and handler calls handleFormSubmit with event.
+ * mapping of each trigger is kept in store.
+ * internal use of Pixela_ class
+ * </p>
+ */
+class FormHandler_ {
+  private pixela: Pixela_;
+  private store: KeyValueStore;
+  private username: string;
+  private toDateStr: (graphID: string, date: string | Date) => string;
+
+  constructor(
+    pixela: Pixela_,
+    store: KeyValueStore,
+    username: string,
+    toDateStr: (graphID: string, date: string | Date) => string
+  ) {
+    this.pixela = pixela;
+    this.store = store;
+    this.username = username;
+    this.toDateStr = toDateStr;
+  }
+
+  public install(
+    form: GoogleAppsScript.Forms.Form | string,
+    handler: string,
+    mapping: FormMapping
+  ): string {
+    this.validate(mapping);
+
+    if (!handler) {
+      throwIfInvalid_("form trigger", ["handler is required"]);
+    }
+
+    const triggerUid = ScriptApp.newTrigger(handler)
+      .forForm(form as GoogleAppsScript.Forms.Form)
+      .onFormSubmit()
+      .create()
+      .getUniqueId();
+    this.store.put(this.key(triggerUid), JSON.stringify(mapping));
+
+    return triggerUid;
+  }
+
+  public uninstall(triggerUid: string): boolean {
+    const key = this.key(triggerUid);
+    let deleted = false;
+
+    ScriptApp.getProjectTriggers().forEach(trigger => {
+      if (trigger.getUniqueId() === triggerUid) {
+        ScriptApp.deleteTrigger(trigger);
+        deleted = true;
+      }
+    });
+
+    this.store.remove(key);
+
+    return deleted;
+  }
+
+  public handle(
+    event: FormSubmitEvent,
+    mapping?: FormMapping
+  ): FormSubmissionResult {
+    const result: FormSubmissionResult = { isSuccess: false, notified: false };
+    let submission: FormSubmission | undefined;
+    // respondent is notified by email collected by form when mapping is not found
+    let resolved: FormMapping = mapping !== undefined ? mapping : {};
+
+    try {
+      submission = this.toSubmission(event);
+      resolved = mapping !== undefined ? mapping : this.lookup(event);
+      this.validate(resolved);
+
+      const pixel = this.toPixel(submission, resolved);
+      result.graphID = pixel.graphID;
+      result.date = pixel.date;
+      result.quantity = this.record(pixel, resolved.mode);
+      result.isSuccess = true;
+    } catch (e) {
+      result.error = e as Error;
+
+      // failure of notification is logged, so that error of submission
+      // is returned and handler never throws
+      try {
+        result.notified =
+          submission !== undefined &&
+          this.notify(submission, resolved, e as Error);
+      } catch (notifyError) {
+        console.error(
+          "failed to notify respondent: " + (notifyError as Error).message
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private lookup(event: FormSubmitEvent): FormMapping {
+    const triggerUid =
+      event !== undefined ? (event as { triggerUid?: string }).triggerUid : "";
+    const mapping =
+      triggerUid !== undefined ? this.store.get(this.key(triggerUid)) : null;
+
+    if (mapping === null) {
+      throw new PixelaValidationError(
+        "no form mapping is installed for trigger: " + triggerUid,
+        0,
+        "",
+        0
+      );
+    }
+
+    return JSON.parse(mapping);
+  }
+
+  private toSubmission(event: FormSubmitEvent): FormSubmission {
+    if ("response" in event && event.response !== undefined) {
+      const answers: { [question: string]: string } = {};
+
+      event.response.getItemResponses().forEach(itemResponse => {
+        answers[itemResponse.getItem().getTitle()] = this.answer(
+          itemResponse.getResponse()
+        );
+      });
+
+      return {
+        answers: answers,
+        timestamp: new Date(event.response.getTimestamp().getTime()),
+        email: event.response.getRespondentEmail() || undefined,
+        formTitle:
+          event.source !== undefined ? event.source.getTitle() : undefined
+      };
+    }
+
+    if ("namedValues" in event && event.namedValues !== undefined) {
+      const answers: { [question: string]: string } = {};
+
+      for (let question in event.namedValues) {
+        answers[question] = this.answer(event.namedValues[question]);
+      }
+
+      // email collected by form is the column next to timestamp
+      const email = event.values !== undefined ? event.values[1] : undefined;
+
+      return {
+        answers: answers,
+        timestamp: new Date(),
+        email:
+          email !== undefined && FORM_EMAIL_PATTERN_.test(email)
+            ? email
+            : undefined
+      };
+    }
+
+    if ("answers" in event && event.answers !== undefined) {
+      return event;
+    }
+
+    throw new PixelaValidationError(
+      "unsupported form submit event: " + JSON.stringify(event),
+      0,
+      "",
+      0
+    );
+  }
+
+  private toPixel(
+    submission: FormSubmission,
+    mapping: FormMapping
+  ): {
+    graphID: string;
+    date: string;
+    quantity: number;
+    optionalData?: { [field: string]: string };
+  } {
+    const problems: string[] = [];
+    const answer = (question: string): string => {
+      const value = submission.answers[question];
+
+      if (value === undefined || value === "") {
+        problems.push("answer is required: " + question);
+        return "";
+      }
+
+      return value;
+    };
+
+    let graphID = mapping.graphID;
+
+    if (mapping.graphIDQuestion !== undefined) {
+      const value = answer(mapping.graphIDQuestion);
+      graphID =
+        mapping.graphIDs !== undefined ? mapping.graphIDs[value] : value;
+
+      if (value !== "" && graphID === undefined) {
+        problems.push(
+          "answer has no graph: " + mapping.graphIDQuestion + ": " + value
+        );
+      }
+    }
+
+    let quantity = mapping.quantity !== undefined ? mapping.quantity : 1;
+
+    if (mapping.quantityQuestion !== undefined) {
+      const value = answer(mapping.quantityQuestion);
+      quantity = value.trim() !== "" ? Number(value) : NaN;
+
+      if (value !== "" && !isFinite(quantity)) {
+        problems.push(
+          "answer must be number: " + mapping.quantityQuestion + ": " + value
+        );
+      }
+    }
+
+    const optionalData: { [field: string]: string } = {};
+    const optionalDataQuestions =
+      mapping.optionalDataQuestions !== undefined
+        ? mapping.optionalDataQuestions
+        : {};
+
+    for (let field in optionalDataQuestions) {
+      const value = submission.answers[optionalDataQuestions[field]];
+
+      if (value !== undefined && value !== "") {
+        optionalData[field] = value;
+      }
+    }
+
+    const dateAnswer =
+      mapping.dateQuestion !== undefined ? answer(mapping.dateQuestion) : "";
+
+    throwIfInvalid_("form answers", problems);
+
+    const id = validatePathSegment_("graphID", graphID as string, ID_PATTERN_);
+    const date =
+      mapping.dateQuestion !== undefined
+        ? this.toDate(id, dateAnswer)
+        : this.toDateStr(
+            id,
+            submission.timestamp !== undefined
+              ? submission.timestamp
+              : new Date()
+          );
+
+    return {
+      graphID: id,
+      date: date,
+      quantity: quantity,
+      optionalData:
+        Object.keys(optionalData).length > 0 ? optionalData : undefined
+    };
+  }
+
+  /**
+   * convert date answer to pixel date<br />
+   * <p>
+   * date (yyyy-MM-dd) and date-time (yyyy-MM-dd HH:mm) answers are
+   * dates of respondent. date-time with offset (e.g. 2020-01-02T01:00:00Z)
+   * is converted in graph timezone.
+   * </p>
+   */
+  private toDate(graphID: string, answer: string): string {
+    const value = answer.trim();
+
+    if (
+      /[T ][0-9:.]+(Z|[+-][0-9]{2}:?[0-9]{2})$/.test(value) &&
+      !isNaN(Date.parse(value))
+    ) {
+      return this.toDateStr(graphID, new Date(value));
+    }
+
+    const dateTime = /^(\S+)[T ][0-9]{1,2}:[0-9]{2}(:[0-9]{2})?$/.exec(value);
+
+    // string without offset is not converted by timezone
+    return parsePixelDate_(dateTime !== null ? dateTime[1] : value, "UTC");
+  }
+
+  private record(
+    pixel: {
+      graphID: string;
+      date: string;
+      quantity: number;
+      optionalData?: { [field: string]: string };
+    },
+    mode: FormPixelMode | undefined
+  ): number {
+    if (mode === "overwrite") {
+      this.put(pixel.graphID, pixel.date, pixel.quantity, pixel.optionalData);
+
+      return pixel.quantity;
+    }
+
+    // read-modify-write of submissions at the same time is serialized
+    const lock =
+      typeof LockService !== "undefined" ? LockService.getScriptLock() : null;
+
+    if (lock !== null) {
+      lock.waitLock(30000);
+    }
+
+    try {
+      const current = this.currentPixel(pixel.graphID, pixel.date);
+      // avoid float error (e.g. 0.1 + 0.2)
+      const quantity =
+        Math.round((current.quantity + pixel.quantity) * 1e10) / 1e10;
+
+      this.put(
+        pixel.graphID,
+        pixel.date,
+        quantity,
+        pixel.optionalData !== undefined
+          ? { ...current.optionalData, ...pixel.optionalData }
+          : current.optionalData
+      );
+
+      return quantity;
+    } finally {
+      if (lock !== null) {
+        lock.releaseLock();
+      }
+    }
+  }
+
+  private currentPixel(
+    graphID: string,
+    date: string
+  ): { quantity: number; optionalData?: object } {
+    let pixel: PixelaResult<PixelResponse>;
+
+    try {
+      pixel = this.pixela.getPixel(graphID, date);
+    } catch (e) {
+      if (e instanceof PixelaNotFoundError) {
+        return { quantity: 0 };
+      }
+
+      throw e;
+    }
+
+    if (!pixel.isSuccess) {
+      if (pixel.error instanceof PixelaNotFoundError) {
+        return { quantity: 0 };
+      }
+
+      throw pixel.error;
+    }
+
+    const optionalData = pixel.optionalData;
+
+    return {
+      quantity: Number(pixel.quantity),
+      optionalData:
+        typeof optionalData === "object" && optionalData !== null
+          ? optionalData
+          : undefined
+    };
+  }
+
+  private put(
+    graphID: string,
+    date: string,
+    quantity: number,
+    optionalData?: object
+  ): void {
+    const response = this.pixela.updatePixel(
+      graphID,
+      date,
+      quantity,
+      optionalData
+    );
+
+    // failed response of throwOnError: false
+    if (!response.isSuccess) {
+      throw response.error;
+    }
+  }
+
+  private notify(
+    submission: FormSubmission,
+    mapping: FormMapping,
+    error: Error
+  ): boolean {
+    const email =
+      mapping.emailQuestion !== undefined
+        ? submission.answers[mapping.emailQuestion]
+        : submission.email;
+
+    if (
+      mapping.notifyOnFailure === false ||
+      !email ||
+      typeof MailApp === "undefined"
+    ) {
+      return false;
+    }
+
+    const answers = Object.keys(submission.answers).map(
+      question => question + ": " + submission.answers[question]
+    );
+
+    MailApp.sendEmail(
+      email,
+      "Your answer was not recorded" +
+        (submission.formTitle !== undefined ? ": " + submission.formTitle : ""),
+      [
+        "Your answer could not be recorded to Pixela.",
+        "",
+        error.message,
+        "",
+        "Your answer:",
+        ...answers
+      ].join("\n")
+    );
+
+    return true;
+  }
+
+  private answer(response: string | (string | string[])[]): string {
+    if (!Array.isArray(response)) {
+      return String(response);
+    }
+
+    // checkbox and grid answers
+    return response
+      .map(value => (Array.isArray(value) ? value.join(", ") : value))
+      .join(", ");
+  }
+
+  private validate(mapping: FormMapping): void {
+    const problems: string[] = [];
+
+    if (
+      (mapping.graphID === undefined) ===
+      (mapping.graphIDQuestion === undefined)
+    ) {
+      problems.push("one of graphID or graphIDQuestion is required");
+    }
+
+    if (mapping.graphID !== undefined && !ID_PATTERN_.test(mapping.graphID)) {
+      problems.push(
+        "graphID must match " + ID_PATTERN_ + ": " + mapping.graphID
+      );
+    }
+
+    if (mapping.graphIDs !== undefined) {
+      for (let answer in mapping.graphIDs) {
+        if (!ID_PATTERN_.test(mapping.graphIDs[answer])) {
+          problems.push(
+            "graphIDs must match " +
+              ID_PATTERN_ +
+              ": " +
+              mapping.graphIDs[answer]
+          );
+        }
+      }
+    }
+
+    if (
+      mapping.quantityQuestion !== undefined &&
+      mapping.quantity !== undefined
+    ) {
+      problems.push("quantity and quantityQuestion are exclusive");
+    }
+
+    if (
+      mapping.quantity !== undefined &&
+      !(typeof mapping.quantity === "number" && isFinite(mapping.quantity))
+    ) {
+      problems.push("quantity must be finite number: " + mapping.quantity);
+    }
+
+    if (
+      mapping.mode !== undefined &&
+      FORM_PIXEL_MODES_.indexOf(mapping.mode) === -1
+    ) {
+      problems.push(
+        "mode must be one of " +
+          FORM_PIXEL_MODES_.join("/") +
+          ": " +
+          mapping.mode
+      );
+    }
+
+    throwIfInvalid_("form mapping", problems);
+  }
+
+  private key(triggerUid: string): string {
+    return "pixela.formTrigger." + this.username + "." + triggerUid;
+  }
+}
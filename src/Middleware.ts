@@ -0,0 +1,173 @@
+/**
+ * @file pixe.la API client middleware
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+/**
+ * Client_ middleware<br/>
+ * <p>
+ * beforeRequest is called before each request is sent and can return
+ * modified request (e.g. add headers).
+ * afterResponse is called with final response (after retries) and
+ * elapsed time (milliseconds), and can return modified response.
+ * </p>
+ */
+interface Middleware {
+  beforeRequest?(request: TransportRequest): TransportRequest | void;
+  afterResponse?(
+    request: TransportRequest,
+    response: ClientResponse,
+    elapsed: number
+  ): ClientResponse | void;
+}
+
+interface LogEntry {
+  timestamp: string;
+  method: HttpMethod;
+  url: string;
+  headers: { [name: string]: string };
+  payload?: unknown;
+  status: number;
+  attempts: number;
+  elapsed: number;
+}
+
+interface LoggingOptions {
+  // "logger" (default on Google Apps Script), "console" (default on other runtimes),
+  // Sheet (append row) or function
+  output?:
+    | "logger"
+    | "console"
+    | GoogleAppsScript.Spreadsheet.Sheet
+    | ((entry: LogEntry) => void);
+  // log request payload (default: true)
+  logPayload?: boolean;
+}
+
+/**
+ * structured logging middleware<br/>
+ * <p>
+ * log method, URL, headers, payload, status, attempts and elapsed time
+ * of each request. X-USER-TOKEN header and token/newToken fields in
+ * payload are always redacted.
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * pixela.use(Pixela.createLoggingMiddleware({ output: "console" }));
+ * </pre>
+ */
+class LoggingMiddleware_ implements Middleware {
+  private static readonly redacted: string = "***";
+  private static readonly secretFields: string[] = ["token", "newToken"];
+
+  private write: (entry: LogEntry) => void;
+  private logPayload: boolean;
+
+  constructor(options?: LoggingOptions) {
+    const opts: LoggingOptions = options !== undefined ? options : {};
+    const output =
+      opts.output !== undefined
+        ? opts.output
+        : typeof Logger !== "undefined"
+        ? "logger"
+        : "console";
+
+    this.logPayload = opts.logPayload !== undefined ? opts.logPayload : true;
+
+    if (typeof output === "function") {
+      this.write = output;
+    } else if (output === "console") {
+      this.write = entry => console.log(JSON.stringify(entry));
+    } else if (output === "logger") {
+      this.write = entry => Logger.log(JSON.stringify(entry));
+    } else {
+      const sheet = output;
+
+      this.write = entry =>
+        sheet.appendRow([
+          entry.timestamp,
+          entry.method,
+          entry.url,
+          entry.status,
+          entry.attempts,
+          entry.elapsed,
+          JSON.stringify(entry.headers),
+          entry.payload !== undefined ? JSON.stringify(entry.payload) : ""
+        ]);
+    }
+  }
+
+  public afterResponse(
+    request: TransportRequest,
+    response: ClientResponse,
+    elapsed: number
+  ): void {
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      method: request.method,
+      url: response.url,
+      headers: this.redactHeaders(request.headers),
+      status: response.status,
+      attempts: response.attempts,
+      elapsed: elapsed
+    };
+
+    if (this.logPayload && request.payload !== undefined) {
+      entry.payload = this.redactPayload(request.payload);
+    }
+
+    this.write(entry);
+  }
+
+  private redactHeaders(headers: {
+    [name: string]: string;
+  }): { [name: string]: string } {
+    const result: { [name: string]: string } = {};
+
+    for (let name in headers) {
+      result[name] =
+        name.toLowerCase() === "x-user-token"
+          ? LoggingMiddleware_.redacted
+          : headers[name];
+    }
+
+    return result;
+  }
+
+  private redactPayload(payload: string): unknown {
+    let value: unknown;
+
+    try {
+      value = JSON.parse(payload);
+    } catch (e) {
+      return LoggingMiddleware_.redacted;
+    }
+
+    return this.redactValue(value);
+  }
+
+  private redactValue(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item));
+    }
+
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+
+    const source = value as { [key: string]: unknown };
+    const result: { [key: string]: unknown } = {};
+
+    for (let key in source) {
+      result[key] =
+        LoggingMiddleware_.secretFields.indexOf(key) !== -1
+          ? LoggingMiddleware_.redacted
+          : this.redactValue(source[key]);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * @file pixe.la API client options
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+/**
+ * pixe.la API client options<br/>
+ * <p>
+ * every element is optional.
+ * </p>
+ */
+interface PixelaOptions {
+  // API base URL (default: https://pixe.la)
+  baseURL?: string;
+  // API version (default: v1)
+  apiVersion?: string;
+  // headers added to every request
+  headers?: { [name: string]: string };
+  // User-Agent header value
+  userAgent?: string;
+  // request timeout (milliseconds). UrlFetchApp ignores this value
+  timeout?: number;
+  // throw PixelaError on failed request (default: true)
+  throwOnError?: boolean;
+  // retry policy elements
+  retryPolicy?: Partial<RetryPolicy>;
+  // HTTP transport (default: UrlFetchTransport_)
+  transport?: Transport;
+  // client-side rate limit (default: disabled)
+  rateLimit?: RateLimitOptions;
+  // request/response middlewares
+  middlewares?: Middleware[];
+  // GET response cache (default: disabled)
+  cache?: CacheOptions | boolean;
+  // check quantity against graph type (e.g. integer for int graph) before
+  // writing pixels. costs one get-graph-definition request per graph (default: true)
+  validateGraphType?: boolean;
+  // store of client state such as stopwatch (default: PropertiesService user properties)
+  stateStore?: KeyValueStore;
+}
+
+interface ClientOptions {
+  // pixe.la username which scopes client state such as quota counter
+  username?: string;
+  headers?: { [name: string]: string };
+  userAgent?: string;
+  timeout?: number;
+  retryPolicy?: Partial<RetryPolicy>;
+  transport?: Transport;
+  rateLimit?: RateLimitOptions;
+  middlewares?: Middleware[];
+  cache?: CacheOptions | boolean;
+}
+
+const DEFAULT_BASE_URL_: string = "https://pixe.la";
+const DEFAULT_API_VERSION_: string = "v1";
+
+/**
+ * validate and normalize client options<br />
+ * @param {PixelaOptions} options client options
+ * @return {PixelaOptions} options with defaults (baseURL without trailing slash)
+ * @throws {PixelaValidationError} when some options are invalid
+ */
+function validateOptions_(options?: PixelaOptions): PixelaOptions {
+  const opts: PixelaOptions = options !== undefined ? options : {};
+  const problems: string[] = [];
+
+  let baseURL = opts.baseURL !== undefined ? opts.baseURL : DEFAULT_BASE_URL_;
+
+  if (
+    typeof baseURL !== "string" ||
+    !/^https?:\/\/[^\s/?#]+(\/[^\s?#]*)?$/.test(baseURL)
+  ) {
+    problems.push("baseURL must be http(s) URL without query: " + baseURL);
+  } else {
+    baseURL = baseURL.replace(/\/+$/, "");
+  }
+
+  const apiVersion =
+    opts.apiVersion !== undefined ? opts.apiVersion : DEFAULT_API_VERSION_;
+
+  if (typeof apiVersion !== "string" || !/^v[0-9]+$/.test(apiVersion)) {
+    problems.push("apiVersion must be like v1: " + apiVersion);
+  }
+
+  if (opts.headers !== undefined) {
+    for (let name in opts.headers) {
+      if (!/^[A-Za-z0-9-]+$/.test(name)) {
+        problems.push("invalid header name: " + name);
+      } else if (name.toLowerCase() === "x-user-token") {
+        problems.push("X-USER-TOKEN header is set by token");
+      } else if (typeof opts.headers[name] !== "string") {
+        problems.push("header value must be string: " + name);
+      }
+    }
+  }
+
+  if (
+    opts.userAgent !== undefined &&
+    (typeof opts.userAgent !== "string" || opts.userAgent === "")
+  ) {
+    problems.push("userAgent must be non-empty string");
+  }
+
+  if (
+    opts.timeout !== undefined &&
+    (typeof opts.timeout !== "number" || !(opts.timeout > 0))
+  ) {
+    problems.push("timeout must be positive number (milliseconds)");
+  }
+
+  if (opts.rateLimit !== undefined) {
+    const rateLimit = opts.rateLimit;
+
+    if (
+      rateLimit.requestsPerSecond !== undefined &&
+      !(rateLimit.requestsPerSecond >= 1)
+    ) {
+      problems.push("rateLimit.requestsPerSecond must be 1 or more");
+    }
+
+    if (
+      rateLimit.requestsPerDay !== undefined &&
+      !(rateLimit.requestsPerDay >= 1)
+    ) {
+      problems.push("rateLimit.requestsPerDay must be 1 or more");
+    }
+  }
+
+  if (opts.cache !== undefined && typeof opts.cache === "object") {
+    const ttl = opts.cache.ttl !== undefined ? opts.cache.ttl : {};
+
+    for (let endpoint in ttl) {
+      if (!(endpoint in DEFAULT_CACHE_TTL_)) {
+        problems.push("unknown cache endpoint: " + endpoint);
+      } else if (!(ttl[endpoint as CacheEndpoint]! >= 0)) {
+        problems.push("cache TTL must be 0 or more: " + endpoint);
+      }
+    }
+  }
+
+  throwIfInvalid_("options", problems);
+
+  return { ...opts, baseURL: baseURL, apiVersion: apiVersion };
+}
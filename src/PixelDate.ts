@@ -0,0 +1,79 @@
+/**
+ * @file pixe.la pixel date conversion
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+/**
+ * format Date as pixel date in timezone<br />
+ * <p>
+ * Utilities.formatDate is not used so that it also works outside
+ * Google Apps Script.
+ * </p>
+ * @param {Date} date date
+ * @param {string} timezone IANA timezone of graph
+ * @return {string} pixel date (yyyyMMdd)
+ * @throws {PixelaValidationError} when date is invalid
+ */
+function formatPixelDate_(date: Date, timezone: string): string {
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    throwIfInvalid_("date", ["date must be valid Date: " + date]);
+  }
+
+  const parts: { [type: string]: string } = {};
+
+  new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  })
+    .formatToParts(date)
+    .forEach(part => {
+      parts[part.type] = part.value;
+    });
+
+  return parts["year"] + parts["month"] + parts["day"];
+}
+
+/**
+ * parse sheet cell as pixel date<br />
+ * @param {any} value Date, yyyyMMdd, yyyy-M-d or yyyy/M/d
+ * @param {string} timezone timezone of Date value
+ * @return {string} pixel date (yyyyMMdd)
+ * @throws {PixelaValidationError} when value is not date
+ */
+function parsePixelDate_(value: any, timezone: string): string {
+  if (value instanceof Date) {
+    return formatPixelDate_(value, timezone);
+  }
+
+  const match = /^([0-9]{4})([0-9]{2})([0-9]{2})$|^([0-9]{4})[-/]([0-9]{1,2})[-/]([0-9]{1,2})$/.exec(
+    String(value).trim()
+  );
+  const date =
+    match === null
+      ? String(value)
+      : match[1] !== undefined
+      ? match[1] + match[2] + match[3]
+      : match[4] + ("0" + match[5]).slice(-2) + ("0" + match[6]).slice(-2);
+
+  return validateDate_("date", date);
+}
+
+/**
+ * shift pixel date by days<br />
+ * @param {string} date pixel date (yyyyMMdd)
+ * @param {number} days number of days (negative for past)
+ * @return {string} pixel date (yyyyMMdd)
+ */
+function shiftPixelDate_(date: string, days: number): string {
+  const time = Date.UTC(
+    Number(date.slice(0, 4)),
+    Number(date.slice(4, 6)) - 1,
+    Number(date.slice(6, 8)) + days
+  );
+
+  return formatPixelDate_(new Date(time), "UTC");
+}
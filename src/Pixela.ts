@@ -12,14 +12,85 @@
  * </p>
  * <h3>Usage</h3>
  * <pre>
- * var pixela = Pixela.create(username, token, debug);
+ * var pixela = Pixela.create(username, token);
+ * var pixela = Pixela.create(username, token, {
+ *   baseURL: "https://pixela.example.com",
+ *   userAgent: "my-sync-script/1.0"
+ * });
  * </pre>
  * @param {string} username pixe.la username
  * @param {string} token  pixe.la API token
+ * @param {PixelaOptions} options optional: baseURL, apiVersion, headers, userAgent, timeout, throwOnError, retryPolicy, transport, rateLimit, middlewares, cache, validateGraphType and stateStore
  * @return {Pixela} pixe.la API client instance
  */
-function create(username: string, token: string): Pixela_ {
-  return new Pixela_(username, token);
+function create(
+  username: string,
+  token: string,
+  options?: PixelaOptions
+): Pixela_ {
+  return new Pixela_(username, token, options);
+}
+
+/**
+ * create logging middleware<br />
+ * <p>
+ * create structured logging middleware for `use` method.
+ * X-USER-TOKEN header and token/newToken fields in payload are always redacted.
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * pixela.use(Pixela.createLoggingMiddleware({ output: "console" }));
+ * pixela.use(Pixela.createLoggingMiddleware({ output: sheet, logPayload: false }));
+ * </pre>
+ * @param {LoggingOptions} options optional: output ("logger" (default on Google Apps Script), "console" (default on other runtimes), Sheet or function) and logPayload (default: true)
+ * @return {Middleware} logging middleware
+ */
+function createLoggingMiddleware(options?: LoggingOptions): Middleware {
+  return new LoggingMiddleware_(options);
+}
+
+// NOTE: batch-post-pixels API accepts limited number of pixels per request.
+const MAX_PIXELS_PER_REQUEST_: number = 100;
+
+// NOTE: get-graph-def API omits some elements of default value.
+const GRAPH_UPDATE_DEFAULTS_: { [element: string]: unknown } = {
+  timezone: "UTC",
+  purgeCacheURLs: [],
+  selfSufficient: "none",
+  isSecret: false,
+  publishOptionalData: false
+};
+
+/**
+ * diff of graph update against current definition<br />
+ * <p>
+ * elements missing in current definition are compared with pixe.la defaults.
+ * </p>
+ * @param {GraphsItem} current current graph definition
+ * @param {GraphUpdate} update update graph elements
+ * @return {object} before/after of changed elements
+ */
+function diffGraph_(current: GraphsItem, update: GraphUpdate): GraphDiff {
+  const diff: GraphDiff = {};
+  const before: { [element: string]: unknown } = { ...current };
+  const after: { [element: string]: unknown } = { ...update };
+
+  for (let element in after) {
+    const value =
+      before[element] !== undefined
+        ? before[element]
+        : GRAPH_UPDATE_DEFAULTS_[element];
+
+    if (
+      after[element] !== undefined &&
+      JSON.stringify(value) !== JSON.stringify(after[element])
+    ) {
+      diff[element] = { before: value, after: after[element] };
+    }
+  }
+
+  return diff;
 }
 
 /**
@@ -35,16 +106,56 @@ function create(username: string, token: string): Pixela_ {
  * </pre>
  */
 class Pixela_ {
-  private baseURL: string = "https://pixe.la";
-  private apiVersion: string = "v1";
-  private username: string;
   private token: string;
   private client: Client_;
+  private requests: RequestBuilder_;
+  private stopwatch: Stopwatch_;
+  private webhookScheduler: WebhookScheduler_;
+  private sheetSync: SheetSync_;
+  private exporter: PixelExport_;
+  private formHandler: FormHandler_;
+  private provisioner: Provisioner_;
+  private throwOnError: boolean = true;
+  private validateGraphType: boolean = true;
+  // graph definitions fetched for Date conversion and graph type check
+  private graphDefinitions: { [graphID: string]: GraphDefinitionResponse } = {};
+
+  constructor(username: string, token: string, options?: PixelaOptions) {
+    const opts = validateOptions_(options);
 
-  constructor(username: string, token: string) {
-    this.username = username;
     this.token = token;
-    this.client = new Client_(token);
+    this.client = new Client_(token, { ...opts, username: username });
+    this.requests = new RequestBuilder_(
+      opts.baseURL as string,
+      opts.apiVersion as string,
+      username
+    );
+    const stateStore =
+      opts.stateStore !== undefined ? opts.stateStore : defaultStore_();
+
+    this.stopwatch = new Stopwatch_(this, stateStore, username);
+    this.webhookScheduler = new WebhookScheduler_(this, stateStore, username);
+    this.sheetSync = new SheetSync_(this, stateStore, username);
+    this.exporter = new PixelExport_(this, (graphID, date) =>
+      this.toDateStr(graphID, date)
+    );
+    this.formHandler = new FormHandler_(
+      this,
+      stateStore,
+      username,
+      (graphID, date) => this.toDateStr(graphID, date)
+    );
+    this.provisioner = new Provisioner_(this, () =>
+      this.client.invalidateCache()
+    );
+
+    if (opts.throwOnError !== undefined) {
+      this.throwOnError = opts.throwOnError;
+    }
+
+    if (opts.validateGraphType !== undefined) {
+      this.validateGraphType = opts.validateGraphType;
+    }
   }
 
   // utilities
@@ -55,7 +166,93 @@ class Pixela_ {
    */
   public setToken(token: string): void {
     this.token = token;
-    this.client = new Client_(token);
+    this.client.setToken(token);
+  }
+
+  /**
+   * set error handling mode<br />
+   * <p>
+   * when throwOnError is true (default), methods throw PixelaError
+   * (PixelaAuthError, PixelaNotFoundError, PixelaRateLimitError,
+   * PixelaValidationError or PixelaServerError) on failed request.
+   * when false, methods return { isSuccess: false, message, error } instead.
+   * </p>
+   * @param {boolean} throwOnError throw error or not
+   * @return {void}
+   */
+  public setThrowOnError(throwOnError: boolean): void {
+    this.throwOnError = throwOnError;
+  }
+
+  /**
+   * set retry policy<br />
+   * <p>
+   * unspecified elements are set to default
+   * (5 attempts, exponential backoff from 500ms with jitter,
+   * retry on 429/503, 500/502/504 of GET request and pixe.la "Please retry this request." rejection).
+   * </p>
+   * @param {object} policy retry policy elements
+   * @return {void}
+   */
+  public setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.client.setRetryPolicy(policy);
+  }
+
+  /**
+   * set HTTP transport<br />
+   * <p>
+   * replace default UrlFetchApp transport (e.g. NodeTransport_ or RecordingTransport_).
+   * </p>
+   * @param {Transport} transport HTTP transport
+   * @return {void}
+   */
+  public setTransport(transport: Transport): void {
+    this.client.setTransport(transport);
+  }
+
+  /**
+   * add middleware<br />
+   * <p>
+   * middleware has beforeRequest(request) and/or afterResponse(request, response, elapsed) hooks.
+   * </p>
+   * @param {Middleware} middleware middleware
+   * @return {void}
+   */
+  public use(middleware: Middleware): void {
+    this.client.use(middleware);
+  }
+
+  /**
+   * get client-side quota status<br />
+   * <p>
+   * returns null when rateLimit option is not set.
+   * </p>
+   * @return {QuotaStatus} requestsPerSecond, requestsPerDay, usedToday, remainingToday and day (UTC)
+   */
+  public getQuotaStatus(): QuotaStatus | null {
+    return this.client.getQuotaStatus();
+  }
+
+  /**
+   * create batch<br />
+   * <p>
+   * queue pixel, graph and webhook operations and send them concurrently
+   * by UrlFetchApp.fetchAll.
+   * </p>
+   * @param {BatchOptions} options optional: chunkSize (default: 10)
+   * @return {PixelaBatch_} batch instance
+   */
+  public batch(options?: BatchOptions): PixelaBatch_ {
+    return new PixelaBatch_(
+      this.client,
+      this.requests,
+      response => this.parseResponse<BasicResponse>(response, false),
+      graphID => this.graphType(graphID),
+      graphID => {
+        delete this.graphDefinitions[graphID];
+      },
+      options
+    );
   }
 
   // user API methods
@@ -74,20 +271,14 @@ class Pixela_ {
     notMinor: string,
     thanksCode?: boolean
   ): BasicResponse {
-    const requestURL: string = this.generateUserURL();
-
-    const payload = {
-      username: this.username,
-      token: this.token,
-      agreeTermsOfService: agreeTermsOfService,
-      notMinor: notMinor,
-      thanksCode: thanksCode !== undefined ? thanksCode : false
-    };
-
-    const responseBodyText = this.client.post(requestURL, payload);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+    const request = this.requests.createUser(
+      this.token,
+      agreeTermsOfService,
+      notMinor,
+      thanksCode
+    );
 
-    return response;
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
   /**
@@ -100,17 +291,9 @@ class Pixela_ {
    * @return {BasicResponse} put-user API response value.
    */
   public updateUser(newToken: string, thanksCode?: boolean): BasicResponse {
-    const requestURL: string = this.generateUserIDURL();
-
-    const payload = {
-      newToken: newToken,
-      thanksCode: thanksCode !== undefined ? thanksCode : false
-    };
-
-    const responseBodyText = this.client.put(requestURL, payload);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+    const request = this.requests.updateUser(newToken, thanksCode);
 
-    return response;
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
   /**
@@ -121,12 +304,38 @@ class Pixela_ {
    * @return {BasicResponse} put-user API response value.
    */
   public deleteUser(): BasicResponse {
-    const requestURL: string = this.generateUserIDURL();
+    const request = this.requests.deleteUser();
+
+    return this.parseResponse<BasicResponse>(this.client.send(request));
+  }
 
-    const responseBodyText = this.client.delete(requestURL);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+  // profile API methods
+  /**
+   * call get-profile API<br/>
+   * <p>
+   * get pixe.la user profile page (https://docs.pixe.la/#/get-profile).
+   * NOTE: pixe.la returns profile as HTML page.
+   * </p>
+   * @return {ProfilePageResponse} profile page HTML (html) with HTTP metadata
+   */
+  public getProfile(): PixelaResult<ProfilePageResponse> {
+    const request = this.requests.getProfile();
+
+    return this.parseText(this.client.send(request), body => ({ html: body }));
+  }
+
+  /**
+   * call put-profile API<br/>
+   * <p>
+   * call pixe.la put-profile API (https://docs.pixe.la/#/put-profile).
+   * </p>
+   * @param {ProfileResponse} profile profile elements (displayName, gravatarIconEmail, title, timezone, aboutURL, contributeURLs, pinnedGraphID, githubUsername and twitterUsername)
+   * @return {BasicResponse} put-profile API response value.
+   */
+  public updateProfile(profile: ProfileResponse): BasicResponse {
+    const request = this.requests.updateProfile(profile);
 
-    return response;
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
   // graph API methods
@@ -134,8 +343,9 @@ class Pixela_ {
    * call post-graph API<br/>
    * <p>
    * call pixe.la post-graph API (https://docs.pixe.la/#/post-graph).
+   * graph definition is validated before request.
    * </p>
-   * @param {string} graphID pixe.la graph ID
+   * @param {string|GraphDefinition} graph pixe.la graph ID or graph definition
    * @param {string} graphName pixe.la graph name
    * @param {string} unit
    * @param {string} type
@@ -144,40 +354,30 @@ class Pixela_ {
    * @param {string} selfSufficient
    * @param {boolean} isSecret hide on graph list
    * @return {BasicResponse} post-graph API response value.
+   * @throws {PixelaValidationError} when graph definition is invalid
    */
   public createGraph(
-    graphID: string,
-    graphName: string,
-    unit: string,
-    type: string,
-    color: string,
+    graph: string | GraphDefinition,
+    graphName?: string,
+    unit?: string,
+    type?: string,
+    color?: string,
     timezone?: string,
     selfSufficient?: string,
     isSecret?: boolean
   ): BasicResponse {
-    const requestURL: string = this.generateGraphsURL();
-
-    const payload = {
-      id: graphID,
-      name: graphName,
-      unit: unit,
-      type: type,
-      color: color,
-      isSecret: isSecret !== undefined ? isSecret : false
-    };
-
-    if (timezone !== undefined) {
-      payload["timezone"] = timezone;
-    }
-
-    if (selfSufficient !== undefined) {
-      payload["selfSufficient"] = selfSufficient;
-    }
-
-    const responseBodyText = this.client.post(requestURL, payload);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+    const request = this.requests.createGraph(
+      graph,
+      graphName,
+      unit,
+      type,
+      color,
+      timezone,
+      selfSufficient,
+      isSecret
+    );
 
-    return response;
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
   /**
@@ -185,14 +385,12 @@ class Pixela_ {
    * <p>
    * call pixe.la get-graph API (https://docs.pixe.la/#/get-graph).
    * </p>
-   * @return {object} get-graph API response value.
+   * @return {GraphResponse} get-graph API response value.
    */
-  public getGraph(): object {
-    const requestURL: string = this.generateGraphsURL();
-    const responseBodyText = this.client.get(requestURL);
-    const response = JSON.parse(responseBodyText);
+  public getGraph(): PixelaResult<GraphResponse> {
+    const request = this.requests.getGraph();
 
-    return response;
+    return this.parseResponse<GraphResponse>(this.client.send(request));
   }
 
   /**
@@ -201,50 +399,93 @@ class Pixela_ {
    * call pixe.la get-svg API (https://docs.pixe.la/#/get-svg).
    * </p>
    * @param {string} graphID pixe.la graph ID
-   * @param {string} dateStr pixel date (yyyyMMdd)
-   * @param {string} mode graph display mode (short: grass graph / line: line chart)
-   * @return {string} get-svg API response value.
+   * @param {string|SvgOptions} options SVG rendering options, or pixel date (yyyyMMdd)
+   * @param {string} mode graph display mode when options is date (short/badge/line)
+   * @return {SvgResponse} SVG document (svg) with HTTP metadata
+   * @throws {PixelaValidationError} when options are invalid
    */
-  public getSvg(graphID: string, dateStr?: string, mode?: string): string {
-    let requestURL: string = this.generateGraphIDURL(graphID);
-    requestURL = this.buildQuery(requestURL, { date: dateStr, mode: mode });
-    const responseBodyText = this.client.get(requestURL);
+  public getSvg(
+    graphID: string,
+    options?: string | SvgOptions,
+    mode?: string
+  ): PixelaResult<SvgResponse> {
+    const request = this.requests.getSvg(
+      graphID,
+      this.toSvgOptions(options, mode)
+    );
+
+    return this.parseText(this.client.send(request), body => ({ svg: body }));
+  }
 
-    return responseBodyText;
+  /**
+   * build SVG graph URL<br/>
+   * <p>
+   * build pixe.la get-svg API URL (https://docs.pixe.la/#/get-svg)
+   * without request, for HTML email or Sheets IMAGE() formula.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {SvgOptions} options SVG rendering options
+   * @return {string} SVG graph URL
+   * @throws {PixelaValidationError} when options are invalid
+   */
+  public getSvgURL(graphID: string, options?: SvgOptions): string {
+    return this.requests.generateSvgURL(graphID, this.toSvgOptions(options));
   }
+
   /**
    * call put-graph API<br/>
    * <p>
    * call pixe.la put-graph API (https://docs.pixe.la/#/put-graph).
+   * with diff option, fetch current definition first, send only changed
+   * elements (no request when nothing is changed) and return before/after
+   * of changed elements.
    * </p>
    * @param {string} graphID pixe.la graph ID
-   * @param {object} payload update graph elements
-   * @return {BasicResponse} post-graph API response value.
+   * @param {GraphUpdate} update update graph elements
+   * @param {UpdateGraphOptions} options optional: diff
+   * @return {GraphUpdateResponse} put-graph API response value (with diff).
+   * @throws {PixelaValidationError} when graph elements are invalid
    */
-  public updateGraph(graphID: string, payload: object): BasicResponse {
-    const requestURL: string = this.generateGraphIDURL(graphID);
-
-    const updatePayload = {};
-    const elements: string[] = [
-      "graphName",
-      "unit",
-      "type",
-      "color",
-      "timezone",
-      "selfSufficient",
-      "isSecret"
-    ];
-
-    elements.forEach(elem => {
-      if (payload[elem] !== undefined) {
-        updatePayload[elem] = payload[elem];
-      }
-    });
+  public updateGraph(
+    graphID: string,
+    update: GraphUpdate,
+    options?: UpdateGraphOptions
+  ): GraphUpdateResponse {
+    delete this.graphDefinitions[graphID];
+
+    if (options === undefined || !options.diff) {
+      const request = this.requests.updateGraph(graphID, update);
+
+      return this.parseResponse<BasicResponse>(this.client.send(request));
+    }
+
+    // validate before fetching current definition
+    validateGraphUpdate_(update);
+
+    const current = this.getGraphDefinition(graphID);
 
-    const responseBodyText = this.client.put(requestURL, payload);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+    if (!current.isSuccess) {
+      return current;
+    }
+
+    const diff = diffGraph_(current, update);
+    const changed: GraphUpdate = {};
+    const pick = <K extends keyof GraphUpdate>(element: K): void => {
+      changed[element] = update[element];
+    };
+
+    (Object.keys(diff) as (keyof GraphUpdate)[]).forEach(pick);
+
+    if (Object.keys(changed).length === 0) {
+      return { message: "No changes.", isSuccess: true, diff: diff };
+    }
+
+    const request = this.requests.updateGraph(graphID, changed);
+    const response = this.parseResponse<BasicResponse>(
+      this.client.send(request)
+    );
 
-    return response;
+    return response.isSuccess ? { ...response, diff: diff } : response;
   }
 
   /**
@@ -256,11 +497,10 @@ class Pixela_ {
    * @return {BasicResponse} delete-graph API response value.
    */
   public deleteGraph(graphID: string): BasicResponse {
-    const requestURL: string = this.generateGraphIDURL(graphID);
-    const responseBodyText = this.client.delete(requestURL);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+    const request = this.requests.deleteGraph(graphID);
+    delete this.graphDefinitions[graphID];
 
-    return response;
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
   /**
@@ -269,24 +509,48 @@ class Pixela_ {
    * call pixe.la get-graph-pixels API (https://docs.pixe.la/#/get-graph-pixels).
    * </p>
    * @param {string} graphID pixe.la graph ID
-   * @param {string} fromDateStr from date (yyyMMdd)
-   * @param {string} toDateStr from date (yyyMMdd)
-   * @return {object} get-graph-pixels API response value.
+   * @param {string|Date} fromDate from date (yyyyMMdd or Date in graph timezone)
+   * @param {string|Date} toDate to date (yyyyMMdd or Date in graph timezone)
+   * @param {boolean} withBody optional: return quantity and optionalData with date (GraphPixelsWithBodyResponse)
+   * @return {GraphPixelsResponse|GraphPixelsWithBodyResponse} get-graph-pixels API response value.
    */
   public getGraphPixelsDate(
     graphID: string,
-    fromDateStr?: string,
-    toDateStr?: string
-  ): object {
-    let requestURL: string = this.generateDetailURL(graphID, "pixels");
-    requestURL = this.buildQuery(requestURL, {
-      from: fromDateStr,
-      to: toDateStr
-    });
-    const responseBodyText = this.client.get(requestURL);
-    const response = JSON.parse(responseBodyText);
+    fromDate?: string | Date,
+    toDate?: string | Date,
+    withBody?: false
+  ): PixelaResult<GraphPixelsResponse>;
+  public getGraphPixelsDate<T = object>(
+    graphID: string,
+    fromDate: string | Date | undefined,
+    toDate: string | Date | undefined,
+    withBody: true
+  ): PixelaResult<GraphPixelsWithBodyResponse<T>>;
+  public getGraphPixelsDate<T = object>(
+    graphID: string,
+    fromDate?: string | Date,
+    toDate?: string | Date,
+    withBody?: boolean
+  ): PixelaResult<GraphPixelsResponse | GraphPixelsWithBodyResponse<T>> {
+    return this.handleLookupError(() => {
+      const request = this.requests.getGraphPixelsDate(
+        graphID,
+        fromDate !== undefined ? this.toDateStr(graphID, fromDate) : undefined,
+        toDate !== undefined ? this.toDateStr(graphID, toDate) : undefined,
+        withBody
+      );
+      const result = this.parseResponse<
+        GraphPixelsResponse | GraphPixelsWithBodyResponse<T>
+      >(this.client.send(request));
+
+      if (withBody && result.isSuccess && Array.isArray(result.pixels)) {
+        (result as GraphPixelsWithBodyResponse<T>).pixels.forEach(pixel =>
+          this.parseOptionalData(pixel)
+        );
+      }
 
-    return response;
+      return result;
+    });
   }
 
   /**
@@ -295,14 +559,50 @@ class Pixela_ {
    * call pixe.la get-graph-stat API (https://docs.pixe.la/#/get-graph-stat).
    * </p>
    * @param {string} graphID pixe.la graph ID
-   * @return {object} get-graph-stat API response value.
+   * @return {GraphStatResponse} get-graph-stat API response value.
+   */
+  public getGraphStat(graphID: string): PixelaResult<GraphStatResponse> {
+    const request = this.requests.getGraphStat(graphID);
+
+    return this.parseResponse<GraphStatResponse>(this.client.send(request));
+  }
+
+  /**
+   * call get-graph-def API<br/>
+   * <p>
+   * call pixe.la get-graph-def API (https://docs.pixe.la/#/get-graph-def).
+   * definition is kept for Date conversion and graph type check.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @return {GraphDefinitionResponse} get-graph-def API response value.
    */
-  public getGraphStat(graphID: string): object {
-    const requestURL: string = this.generateDetailURL(graphID, "stats");
-    const responseBodyText = this.client.get(requestURL);
-    const response = JSON.parse(responseBodyText);
+  public getGraphDefinition(
+    graphID: string
+  ): PixelaResult<GraphDefinitionResponse> {
+    const request = this.requests.getGraphDefinition(graphID);
+    const result = this.parseResponse<GraphDefinitionResponse>(
+      this.client.send(request)
+    );
+
+    if (result.isSuccess) {
+      this.graphDefinitions[graphID] = result;
+    }
 
-    return response;
+    return result;
+  }
+
+  /**
+   * build graph detail page URL<br/>
+   * <p>
+   * build pixe.la graph detail page URL (https://docs.pixe.la/#/get-graph-html)
+   * without request.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {string} mode optional: display mode (simple/simple-short)
+   * @return {string} graph detail page URL
+   */
+  public getGraphDetailURL(graphID: string, mode?: string): string {
+    return this.requests.generateGraphDetailURL(graphID, mode);
   }
 
   // pixel API methods
@@ -312,32 +612,28 @@ class Pixela_ {
    * call pixe.la post-pixel API (https://docs.pixe.la/#/post-pixel).
    * </p>
    * @param {string} graphID pixe.la graph ID
-   * @param {string} dateStr pixel date (yyyyMMdd)
+   * @param {string|Date} date pixel date (yyyyMMdd or Date in graph timezone)
    * @param {number} quantity pixel quantity (int/float)
    * @param {object} optionalData
    * @return {BasicResponse} post-pixel API response value.
    */
   public createPixel(
     graphID: string,
-    dateStr: string,
+    date: string | Date,
     quantity: number,
     optionalData?: object
   ): BasicResponse {
-    const requestURL: string = this.generateGraphIDURL(graphID);
-
-    const payload = {
-      date: dateStr,
-      quantity: quantity.toString()
-    };
-
-    if (optionalData !== undefined) {
-      payload["optionalData"] = JSON.stringify(optionalData);
-    }
-
-    const responseBodyText = this.client.post(requestURL, payload);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
-
-    return response;
+    return this.handleLookupError(() => {
+      const request = this.requests.createPixel(
+        graphID,
+        this.toDateStr(graphID, date),
+        quantity,
+        optionalData,
+        this.graphType(graphID)
+      );
+
+      return this.parseResponse<BasicResponse>(this.client.send(request));
+    });
   }
 
   /**
@@ -346,15 +642,61 @@ class Pixela_ {
    * call pixe.la get-pixel API (https://docs.pixe.la/#/get-pixel).
    * </p>
    * @param {string} graphID pixe.la graph ID
-   * @param {string} dateStr pixel date (yyyyMMdd)
+   * @param {string|Date} date pixel date (yyyyMMdd or Date in graph timezone)
    * @return {PixelResponse} get-pixel API response value.
    */
-  public getPixel(graphID: string, dateStr: string): PixelResponse {
-    const requestURL: string = this.generateDetailURL(graphID, dateStr);
-    const responseBodyText = this.client.get(requestURL);
-    const response = JSON.parse(responseBodyText) as PixelResponse;
+  public getPixel<T = object>(
+    graphID: string,
+    date: string | Date
+  ): PixelaResult<PixelResponse<T>> {
+    return this.handleLookupError(() => {
+      const request = this.requests.getPixel(
+        graphID,
+        this.toDateStr(graphID, date)
+      );
+
+      return this.parseOptionalData(
+        this.parseResponse<PixelResponse<T>>(this.client.send(request))
+      );
+    });
+  }
+
+  /**
+   * call get-latest-pixel API<br/>
+   * <p>
+   * call pixe.la get-latest-pixel API (https://docs.pixe.la/#/get-latest-pixel).
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @return {LatestPixelResponse} get-latest-pixel API response value.
+   */
+  public getLatestPixel<T = object>(
+    graphID: string
+  ): PixelaResult<LatestPixelResponse<T>> {
+    const request = this.requests.getLatestPixel(graphID);
+
+    return this.parseOptionalData(
+      this.parseResponse<LatestPixelResponse<T>>(this.client.send(request))
+    );
+  }
+
+  /**
+   * call get-today-pixel API<br/>
+   * <p>
+   * call pixe.la get-today-pixel API (https://docs.pixe.la/#/get-today-pixel).
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {boolean} returnEmpty optional: return zero quantity instead of 404 when today's pixel is missing
+   * @return {PixelResponse} get-today-pixel API response value.
+   */
+  public getTodayPixel<T = object>(
+    graphID: string,
+    returnEmpty?: boolean
+  ): PixelaResult<PixelResponse<T>> {
+    const request = this.requests.getTodayPixel(graphID, returnEmpty);
 
-    return response;
+    return this.parseOptionalData(
+      this.parseResponse<PixelResponse<T>>(this.client.send(request))
+    );
   }
 
   /**
@@ -363,31 +705,190 @@ class Pixela_ {
    * call pixe.la put-pixel API (https://docs.pixe.la/#/put-pixel).
    * </p>
    * @param {string} graphID pixe.la graph ID
-   * @param {string} dateStr pixel date (yyyyMMdd)
+   * @param {string|Date} date pixel date (yyyyMMdd or Date in graph timezone)
    * @param {number} quantity pixel quantity (int/float)
    * @param {object} optionalData
    * @return {BasicResponse} put-pixel API response value.
    */
   public updatePixel(
     graphID: string,
-    dateStr: string,
+    date: string | Date,
     quantity: number,
     optionalData?: object
   ): BasicResponse {
-    const requestURL: string = this.generateDetailURL(graphID, dateStr);
+    return this.handleLookupError(() => {
+      const request = this.requests.updatePixel(
+        graphID,
+        this.toDateStr(graphID, date),
+        quantity,
+        optionalData,
+        this.graphType(graphID)
+      );
+
+      return this.parseResponse<BasicResponse>(this.client.send(request));
+    });
+  }
 
-    const payload = {
-      quantity: quantity.toString()
-    };
+  /**
+   * call batch-post-pixels API<br/>
+   * <p>
+   * call pixe.la batch-post-pixels API (https://docs.pixe.la/#/batch-post-pixels).
+   * pixels are split into chunks and sent in order. when a chunk fails,
+   * following chunks are not sent (throw error or return failed response
+   * as the last element).
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {PixelInput[]} pixels pixels (date (yyyyMMdd), quantity and optionalData)
+   * @param {number} chunkSize optional: number of pixels per request (default: 100)
+   * @return {BasicResponse[]} batch-post-pixels API response value of each chunk.
+   */
+  public createPixels(
+    graphID: string,
+    pixels: PixelInput[],
+    chunkSize?: number
+  ): BasicResponse[] {
+    const size = chunkSize !== undefined ? chunkSize : MAX_PIXELS_PER_REQUEST_;
+
+    if (!(size >= 1 && size <= MAX_PIXELS_PER_REQUEST_) || size % 1 !== 0) {
+      throw new PixelaValidationError(
+        "chunkSize must be integer from 1 to " +
+          MAX_PIXELS_PER_REQUEST_ +
+          ": " +
+          chunkSize,
+        0,
+        "",
+        0
+      );
+    }
+
+    // validate all pixels before sending first chunk
+    const type = this.handleLookupError(() => this.graphType(graphID));
+    const requests: ClientRequest[] = [];
+
+    if (typeof type === "object") {
+      return [type];
+    }
+
+    for (let i = 0; i < pixels.length; i += size) {
+      requests.push(
+        this.requests.createPixels(graphID, pixels.slice(i, i + size), type)
+      );
+    }
+
+    const responses: BasicResponse[] = [];
 
-    if (optionalData !== undefined) {
-      payload["optionalData"] = JSON.stringify(optionalData);
+    for (let request of requests) {
+      const response = this.parseResponse<BasicResponse>(
+        this.client.send(request)
+      );
+      responses.push(response);
+
+      if (!response.isSuccess) {
+        break;
+      }
     }
 
-    const responseBodyText = this.client.put(requestURL, payload);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+    return responses;
+  }
+
+  /**
+   * call add-pixel API<br/>
+   * <p>
+   * call pixe.la add-pixel API (https://docs.pixe.la/#/add-pixel).
+   * add quantity to today's pixel.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {number} quantity quantity to add (int/float)
+   * @return {BasicResponse} add-pixel API response value.
+   */
+  public addPixel(graphID: string, quantity: number): BasicResponse {
+    return this.handleLookupError(() => {
+      const request = this.requests.addPixel(
+        graphID,
+        quantity,
+        this.graphType(graphID)
+      );
+
+      return this.parseResponse<BasicResponse>(this.client.send(request));
+    });
+  }
+
+  /**
+   * call subtract-pixel API<br/>
+   * <p>
+   * call pixe.la subtract-pixel API (https://docs.pixe.la/#/subtract-pixel).
+   * subtract quantity from today's pixel.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {number} quantity quantity to subtract (int/float)
+   * @return {BasicResponse} subtract-pixel API response value.
+   */
+  public subtractPixel(graphID: string, quantity: number): BasicResponse {
+    return this.handleLookupError(() => {
+      const request = this.requests.subtractPixel(
+        graphID,
+        quantity,
+        this.graphType(graphID)
+      );
+
+      return this.parseResponse<BasicResponse>(this.client.send(request));
+    });
+  }
+
+  /**
+   * call stopwatch API<br/>
+   * <p>
+   * call pixe.la stopwatch API (https://docs.pixe.la/#/post-stopwatch).
+   * start stopwatch when it is stopped, or stop stopwatch and record
+   * elapsed minutes to today's pixel when it is running.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @return {BasicResponse} stopwatch API response value.
+   */
+  public toggleStopwatch(graphID: string): BasicResponse {
+    const request = this.requests.stopwatch(graphID);
+
+    return this.parseResponse<BasicResponse>(this.client.send(request));
+  }
+
+  /**
+   * start stopwatch<br/>
+   * <p>
+   * graphs whose unit is minutes use pixe.la stopwatch API.
+   * graphs of other time units (seconds/hours) keep start time in stateStore
+   * and stopStopwatch adds elapsed time to today's pixel.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @return {BasicResponse} stopwatch API response value.
+   * @throws {PixelaValidationError} when stopwatch is running or graph unit is not time unit
+   */
+  public startStopwatch(graphID: string): BasicResponse {
+    return this.stopwatch.start(graphID);
+  }
+
+  /**
+   * stop stopwatch<br/>
+   * <p>
+   * record elapsed time to today's pixel.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @return {StopwatchResponse} response value with elapsedMinutes and quantity (local mode only)
+   * @throws {PixelaValidationError} when stopwatch is not running
+   */
+  public stopStopwatch(graphID: string): StopwatchResponse {
+    return this.stopwatch.stop(graphID);
+  }
 
-    return response;
+  /**
+   * get stopwatch status<br/>
+   * <p>
+   * status of stopwatch started by startStopwatch.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @return {StopwatchStatus} running, mode (server/local), startedAt and elapsedMinutes
+   */
+  public getStopwatchStatus(graphID: string): StopwatchStatus {
+    return this.stopwatch.status(graphID);
   }
 
   /**
@@ -399,11 +900,9 @@ class Pixela_ {
    * @return {BasicResponse} increment-pixel API response value.
    */
   public incPixel(graphID: string): BasicResponse {
-    const requestURL: string = this.generateDetailURL(graphID, "increment");
-    const responseBodyText = this.client.put(requestURL);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+    const request = this.requests.incPixel(graphID);
 
-    return response;
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
   /**
@@ -415,11 +914,9 @@ class Pixela_ {
    * @return {BasicResponse} decrement-pixel API response value.
    */
   public decPixel(graphID: string): BasicResponse {
-    const requestURL: string = this.generateDetailURL(graphID, "decrement");
-    const responseBodyText = this.client.put(requestURL);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+    const request = this.requests.decPixel(graphID);
 
-    return response;
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
   /**
@@ -428,15 +925,18 @@ class Pixela_ {
    * call pixe.la decrement-pixel API (https://docs.pixe.la/#/decrement-pixel).
    * </p>
    * @param {string} graphID pixe.la graph ID
-   * @param {string} dateStr pixel date (yyyyMMdd)
+   * @param {string|Date} date pixel date (yyyyMMdd or Date in graph timezone)
    * @return {BasicResponse} decrement-pixel API response value.
    */
-  public deletePixel(graphID: string, dateStr: string): BasicResponse {
-    const requestURL: string = this.generateDetailURL(graphID, dateStr);
-    const responseBodyText = this.client.delete(requestURL);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
-
-    return response;
+  public deletePixel(graphID: string, date: string | Date): BasicResponse {
+    return this.handleLookupError(() => {
+      const request = this.requests.deletePixel(
+        graphID,
+        this.toDateStr(graphID, date)
+      );
+
+      return this.parseResponse<BasicResponse>(this.client.send(request));
+    });
   }
 
   // webhook API methods
@@ -446,21 +946,19 @@ class Pixela_ {
    * call pixe.la post-webhook API (https://docs.pixe.la/#/post-webhook).
    * </p>
    * @param {string} graphID pixe.la graph ID
-   * @param {string} webhookType webhook type
-   * @return {BasicResponse} post-webhook API response value.
+   * @param {WebhookType} webhookType webhook type (increment/decrement/add/subtract/stopwatch)
+   * @param {number} quantity quantity of add/subtract webhook
+   * @return {CreateWebhookResponse} post-webhook API response value (with webhookHash).
+   * @throws {PixelaValidationError} when webhook type or quantity is invalid
    */
-  public createWebhook(graphID: string, webhookType: string): BasicResponse {
-    const requestURL: string = this.generateWebhookURL();
-
-    const payload = {
-      graphID: graphID,
-      type: webhookType
-    };
-
-    const responseBodyText = this.client.post(requestURL, payload);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+  public createWebhook(
+    graphID: string,
+    webhookType: WebhookType,
+    quantity?: number
+  ): CreateWebhookResponse {
+    const request = this.requests.createWebhook(graphID, webhookType, quantity);
 
-    return response;
+    return this.parseResponse<CreateWebhookResponse>(this.client.send(request));
   }
 
   /**
@@ -468,162 +966,1520 @@ class Pixela_ {
    * <p>
    * call pixe.la get-webhook API (https://docs.pixe.la/#/get-webhook).
    * </p>
-   * @return {object} get-webhook API response value.
+   * @return {WebhookResponse} get-webhook API response value.
    */
-  public getWebhook(): object {
-    const requestURL: string = this.generateWebhookURL();
-    const responseBodyText = this.client.get(requestURL);
-    const response = JSON.parse(responseBodyText);
+  public getWebhook(): PixelaResult<WebhookResponse> {
+    const request = this.requests.getWebhook();
 
-    return response;
+    return this.parseResponse<WebhookResponse>(this.client.send(request));
   }
 
   /**
-   * call invoke-webhook API<br/>
+   * find webhooks<br/>
    * <p>
-   * call pixe.la invoke-webhook API (https://docs.pixe.la/#/invoke-webhook).
+   * find webhooks of graph and type by get-webhook API.
    * </p>
-   * @param {string} webhookHash webhook hash id
-   * @return {BasicResponse} invoke-webhook API response value.
+   * @param {string} graphID optional: pixe.la graph ID
+   * @param {WebhookType} webhookType optional: webhook type
+   * @return {WebhooksItem[]} matched webhooks
+   * @throws {PixelaError} when get-webhook API failed (regardless of throwOnError)
    */
-  public invokeWebhook(webhookHash: string): BasicResponse {
-    const requestURL: string = this.generateWebhookDetailURL(webhookHash);
-    const responseBodyText = this.client.post(requestURL, undefined);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
-
-    return response;
+  public findWebhooks(
+    graphID?: string,
+    webhookType?: WebhookType
+  ): WebhooksItem[] {
+    const request = this.requests.getWebhook();
+    const result = this.parse<WebhookResponse>(this.client.send(request));
+
+    return result.webhooks.filter(
+      webhook =>
+        (graphID === undefined || webhook.graphID === graphID) &&
+        (webhookType === undefined || webhook.type === webhookType)
+    );
   }
 
   /**
-   * call delete-webhook API<br/>
+   * ensure webhook exists<br/>
    * <p>
-   * call pixe.la delete-webhook API (https://docs.pixe.la/#/delete-webhook).
+   * create webhook only when webhook of same graph, type (and quantity)
+   * doesn't exist. return webhookHash of existing or created webhook.
    * </p>
-   * @param {string} webhookHash webhook hash id
+   * @param {string} graphID pixe.la graph ID
+   * @param {WebhookType} webhookType webhook type (increment/decrement/add/subtract/stopwatch)
+   * @param {number} quantity quantity of add/subtract webhook
+   * @return {EnsureWebhookResponse} response value with webhookHash and created
+   * @throws {PixelaValidationError} when webhook type or quantity is invalid
+   */
+  public ensureWebhook(
+    graphID: string,
+    webhookType: WebhookType,
+    quantity?: number
+  ): EnsureWebhookResponse {
+    // validate before get-webhook request
+    this.requests.createWebhook(graphID, webhookType, quantity);
+
+    const formatted =
+      quantity !== undefined
+        ? validateQuantity_("quantity", quantity)
+        : undefined;
+    const existing = this.findWebhooks(graphID, webhookType).filter(
+      webhook =>
+        webhook.quantity === undefined ||
+        Number(webhook.quantity) === Number(formatted)
+    );
+
+    if (existing.length > 0) {
+      return {
+        message: "Already exists.",
+        isSuccess: true,
+        webhookHash: existing[0].webhookHash,
+        created: false
+      };
+    }
+
+    const response = this.createWebhook(graphID, webhookType, quantity);
+
+    return { ...response, created: response.isSuccess };
+  }
+
+  /**
+   * schedule webhook invocation<br/>
+   * <p>
+   * install time-driven trigger which calls handler function on schedule.
+   * handler function calls invokeScheduledWebhook with trigger event.
+   * webhook hash of trigger is kept in stateStore.
+   * </p>
+   * @param {string} webhookHash webhook hash id
+   * @param {WebhookSchedule} schedule handler and one of everyMinutes/everyHours/everyDays (with atHour)
+   * @return {string} trigger unique ID
+   * @throws {PixelaValidationError} when schedule is invalid
+   */
+  public scheduleWebhook(
+    webhookHash: string,
+    schedule: WebhookSchedule
+  ): string {
+    return this.webhookScheduler.schedule(webhookHash, schedule);
+  }
+
+  /**
+   * invoke webhook of trigger<br/>
+   * <p>
+   * call from handler function of trigger installed by scheduleWebhook.
+   * </p>
+   * @param {GoogleAppsScript.Events.TimeDriven} event trigger event
+   * @return {BasicResponse} invoke-webhook API response value.
+   * @throws {PixelaValidationError} when no webhook is scheduled for trigger
+   */
+  public invokeScheduledWebhook(event: { triggerUid: string }): BasicResponse {
+    return this.webhookScheduler.invoke(event);
+  }
+
+  /**
+   * unschedule webhook invocation<br/>
+   * <p>
+   * delete triggers installed by scheduleWebhook.
+   * </p>
+   * @param {string} webhookHash webhook hash id
+   * @return {number} number of deleted triggers
+   */
+  public unscheduleWebhook(webhookHash: string): number {
+    return this.webhookScheduler.unschedule(webhookHash);
+  }
+
+  /**
+   * call invoke-webhook API<br/>
+   * <p>
+   * call pixe.la invoke-webhook API (https://docs.pixe.la/#/invoke-webhook).
+   * </p>
+   * @param {string} webhookHash webhook hash id
+   * @return {BasicResponse} invoke-webhook API response value.
+   */
+  public invokeWebhook(webhookHash: string): BasicResponse {
+    const request = this.requests.invokeWebhook(webhookHash);
+
+    return this.parseResponse<BasicResponse>(this.client.send(request));
+  }
+
+  /**
+   * call delete-webhook API<br/>
+   * <p>
+   * call pixe.la delete-webhook API (https://docs.pixe.la/#/delete-webhook).
+   * </p>
+   * @param {string} webhookHash webhook hash id
    * @return {BasicResponse} invoke-webhook API response value.
    */
   public deleteWebhook(webhookHash: string): BasicResponse {
-    const requestURL: string = this.generateWebhookDetailURL(webhookHash);
-    const responseBodyText = this.client.delete(requestURL);
-    const response = JSON.parse(responseBodyText) as BasicResponse;
+    const request = this.requests.deleteWebhook(webhookHash);
 
-    return response;
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
-  private generateUserURL(): string {
-    return Utilities.formatString("%s/%s/users", this.baseURL, this.apiVersion);
+  // channel API methods
+  /**
+   * call post-channel API<br/>
+   * <p>
+   * call pixe.la post-channel API (https://docs.pixe.la/#/post-channel).
+   * </p>
+   * @param {ChannelsItem} channel channel (id, name, type and detail)
+   * @return {BasicResponse} post-channel API response value.
+   */
+  public createChannel(channel: ChannelsItem): BasicResponse {
+    validateChannel_(channel, false);
+
+    const request = this.requests.createChannel(channel);
+
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
-  private generateUserIDURL(): string {
-    return Utilities.formatString(
-      "%s/%s/users/%s",
-      this.baseURL,
-      this.apiVersion,
-      this.username
-    );
+  /**
+   * call get-channels API<br/>
+   * <p>
+   * call pixe.la get-channels API (https://docs.pixe.la/#/get-channels).
+   * </p>
+   * @return {ChannelResponse} get-channels API response value.
+   */
+  public getChannels(): PixelaResult<ChannelResponse> {
+    const request = this.requests.getChannels();
+
+    return this.parseResponse<ChannelResponse>(this.client.send(request));
   }
 
-  private generateGraphsURL(): string {
-    return Utilities.formatString(
-      "%s/%s/users/%s/graphs",
-      this.baseURL,
-      this.apiVersion,
-      this.username
-    );
+  /**
+   * call put-channel API<br/>
+   * <p>
+   * call pixe.la put-channel API (https://docs.pixe.la/#/put-channel).
+   * </p>
+   * @param {string} channelID channel ID
+   * @param {object} channel update channel elements (name, type and detail)
+   * @return {BasicResponse} put-channel API response value.
+   */
+  public updateChannel(
+    channelID: string,
+    channel: Partial<ChannelsItem>
+  ): BasicResponse {
+    validateChannel_(channel, true);
+
+    const request = this.requests.updateChannel(channelID, channel);
+
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
-  private generateGraphIDURL(graphID: string): string {
-    return Utilities.formatString(
-      "%s/%s/users/%s/graphs/%s",
-      this.baseURL,
-      this.apiVersion,
-      this.username,
-      graphID
-    );
+  /**
+   * call delete-channel API<br/>
+   * <p>
+   * call pixe.la delete-channel API (https://docs.pixe.la/#/delete-channel).
+   * </p>
+   * @param {string} channelID channel ID
+   * @return {BasicResponse} delete-channel API response value.
+   */
+  public deleteChannel(channelID: string): BasicResponse {
+    const request = this.requests.deleteChannel(channelID);
+
+    return this.parseResponse<BasicResponse>(this.client.send(request));
+  }
+
+  // notification API methods
+  /**
+   * call post-notification API<br/>
+   * <p>
+   * call pixe.la post-notification API (https://docs.pixe.la/#/post-notification).
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {NotificationsItem} notification notification rule (id, name, target, condition, threshold, remindBy and channelID)
+   * @return {BasicResponse} post-notification API response value.
+   */
+  public createNotification(
+    graphID: string,
+    notification: NotificationsItem
+  ): BasicResponse {
+    validateNotification_(notification, false);
+
+    const request = this.requests.createNotification(graphID, notification);
+
+    return this.parseResponse<BasicResponse>(this.client.send(request));
+  }
+
+  /**
+   * call get-notifications API<br/>
+   * <p>
+   * call pixe.la get-notifications API (https://docs.pixe.la/#/get-notifications).
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @return {NotificationResponse} get-notifications API response value.
+   */
+  public getNotifications(graphID: string): PixelaResult<NotificationResponse> {
+    const request = this.requests.getNotifications(graphID);
+
+    return this.parseResponse<NotificationResponse>(this.client.send(request));
   }
 
-  private generateDetailURL(graphID: string, detailType: string): string {
-    return Utilities.formatString(
-      "%s/%s/users/%s/graphs/%s/%s",
-      this.baseURL,
-      this.apiVersion,
-      this.username,
+  /**
+   * call put-notification API<br/>
+   * <p>
+   * call pixe.la put-notification API (https://docs.pixe.la/#/put-notification).
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {string} notificationID notification ID
+   * @param {object} notification update notification rule elements
+   * @return {BasicResponse} put-notification API response value.
+   */
+  public updateNotification(
+    graphID: string,
+    notificationID: string,
+    notification: Partial<NotificationsItem>
+  ): BasicResponse {
+    validateNotification_(notification, true);
+
+    const request = this.requests.updateNotification(
       graphID,
-      detailType
+      notificationID,
+      notification
     );
+
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
-  private generateWebhookURL(): string {
-    return Utilities.formatString(
-      "%s/%s/users/%s/webhooks",
-      this.baseURL,
-      this.apiVersion,
-      this.username
-    );
+  /**
+   * call delete-notification API<br/>
+   * <p>
+   * call pixe.la delete-notification API (https://docs.pixe.la/#/delete-notification).
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {string} notificationID notification ID
+   * @return {BasicResponse} delete-notification API response value.
+   */
+  public deleteNotification(
+    graphID: string,
+    notificationID: string
+  ): BasicResponse {
+    const request = this.requests.deleteNotification(graphID, notificationID);
+
+    return this.parseResponse<BasicResponse>(this.client.send(request));
   }
 
-  private generateWebhookDetailURL(webhookHash: string): string {
-    return Utilities.formatString(
-      "%s/%s/users/%s/webhooks/%s",
-      this.baseURL,
-      this.apiVersion,
-      this.username,
-      webhookHash
-    );
+  // Google Sheets methods
+  /**
+   * push sheet rows to graph<br/>
+   * <p>
+   * read date, quantity and optionalData columns of sheet, aggregate rows
+   * of the same date (sum/max/last) and push pixels by put-pixel API.
+   * pixels unchanged since last sync (fingerprint in stateStore) are skipped,
+   * so that sync can run repeatedly from trigger. status and error columns
+   * are written back to sheet when specified.
+   * </p>
+   * @param {SheetLike} sheet sheet (GoogleAppsScript.Spreadsheet.Sheet)
+   * @param {SheetSyncOptions} options graphID, columns and aggregation
+   * @return {SheetSyncResult} number of pushed, unchanged and failed pixels
+   * @throws {PixelaValidationError} when options are invalid
+   */
+  public syncSheet(
+    sheet: SheetLike,
+    options: SheetSyncOptions
+  ): SheetSyncResult {
+    return this.sheetSync.sync(sheet, options);
+  }
+
+  /**
+   * export pixels of graph<br/>
+   * <p>
+   * fetch pixels with quantity and optionalData by get-graph-pixels API
+   * one year at a time. without from option, pixels are fetched back
+   * until the number of pixels reaches totalPixelsCount of get-graph-stat API
+   * or no pixel is found in 3 years.
+   * optionalData keys are flattened into columns.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {PixelExportOptions} options optional: date range, quantity and date format
+   * @return {PixelTable} header and rows sorted by date
+   * @throws {PixelaValidationError} when options are invalid
+   * @throws {PixelaError} when request failed
+   */
+  public exportPixels(
+    graphID: string,
+    options: PixelExportOptions = {}
+  ): PixelTable {
+    return this.exporter.toTable(graphID, options);
+  }
+
+  /**
+   * export pixels of graph as CSV<br/>
+   * <p>
+   * CSV (RFC 4180) of exportPixels method with header row.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {PixelExportOptions} options optional: date range, quantity and date format
+   * @return {string} CSV
+   * @throws {PixelaValidationError} when options are invalid
+   * @throws {PixelaError} when request failed
+   */
+  public exportPixelsToCSV(
+    graphID: string,
+    options: PixelExportOptions = {}
+  ): string {
+    return this.exporter.toCSV(graphID, options);
+  }
+
+  /**
+   * export pixels of graph to CSV file on Google Drive<br/>
+   * <p>
+   * create new file (or overwrite file of fileId option) with CSV
+   * of exportPixelsToCSV method.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {PixelDriveExportOptions} options optional: file name, folder or file ID, date range and format
+   * @return {string} file ID
+   * @throws {PixelaValidationError} when options are invalid
+   * @throws {PixelaError} when request failed
+   */
+  public exportPixelsToDrive(
+    graphID: string,
+    options: PixelDriveExportOptions = {}
+  ): string {
+    return this.exporter.toDrive(graphID, options);
+  }
+
+  /**
+   * export pixels of graph to sheet<br/>
+   * <p>
+   * write header and rows of exportPixels method from A1 of sheet.
+   * with incremental option, only pixels since last date in sheet are fetched
+   * and merged into rows of previous export.
+   * pixels deleted before last date are not removed by incremental export.
+   * </p>
+   * @param {string} graphID pixe.la graph ID
+   * @param {SheetLike} sheet sheet (GoogleAppsScript.Spreadsheet.Sheet)
+   * @param {PixelSheetExportOptions} options optional: incremental, date range, quantity and date format
+   * @return {PixelSheetExportResult} number of fetched pixels and rows in sheet
+   * @throws {PixelaValidationError} when options are invalid or sheet is not previous export
+   * @throws {PixelaError} when request failed
+   */
+  public exportPixelsToSheet(
+    graphID: string,
+    sheet: SheetLike,
+    options: PixelSheetExportOptions = {}
+  ): PixelSheetExportResult {
+    return this.exporter.toSheet(graphID, sheet, options);
+  }
+
+  // Google Forms methods
+  /**
+   * install form submit trigger which records pixel<br/>
+   * <p>
+   * trigger calls handler function of script, and handler function calls
+   * handleFormSubmit with event. mapping of trigger is kept in stateStore.
+   * </p>
+   * @param {GoogleAppsScript.Forms.Form|string} form form or form ID
+   * @param {string} handler name of global function which calls handleFormSubmit
+   * @param {FormMapping} mapping questions of graph ID, date, quantity and optionalData
+   * @return {string} trigger unique ID
+   * @throws {PixelaValidationError} when mapping is invalid
+   */
+  public installFormTrigger(
+    form: GoogleAppsScript.Forms.Form | string,
+    handler: string,
+    mapping: FormMapping
+  ): string {
+    return this.formHandler.install(form, handler, mapping);
+  }
+
+  /**
+   * record pixel from form submission<br/>
+   * <p>
+   * map answers to graph ID, date, quantity and optionalData, and add quantity
+   * to pixel of the date (mode: add) or replace pixel (mode: overwrite).
+   * invalid answers, invalid or missing mapping and failed requests
+   * do not throw error, and are reported to respondent by email
+   * unless notifyOnFailure is false.
+   * </p>
+   * @param {FormSubmitEvent} event form submit event of form or spreadsheet, or FormSubmission
+   * @param {FormMapping} mapping optional: mapping (default: mapping of trigger installed by installFormTrigger)
+   * @return {FormSubmissionResult} recorded pixel or error
+   */
+  public handleFormSubmit(
+    event: FormSubmitEvent,
+    mapping?: FormMapping
+  ): FormSubmissionResult {
+    return this.formHandler.handle(event, mapping);
+  }
+
+  /**
+   * delete trigger installed by installFormTrigger<br/>
+   * @param {string} triggerUid trigger unique ID
+   * @return {boolean} true when trigger is deleted
+   */
+  public uninstallFormTrigger(triggerUid: string): boolean {
+    return this.formHandler.uninstall(triggerUid);
+  }
+
+  // provisioning methods
+  /**
+   * plan provisioning of manifest<br/>
+   * <p>
+   * compare manifest with get-graphs, get-webhook and get-notifications API
+   * output, and return creates, updates and deletes with human-readable text.
+   * resources not in manifest are deleted only with allowDeletes option.
+   * no resource is changed by plan.
+   * </p>
+   * @param {PixelaManifest} manifest graphs with webhooks and notifications
+   * @param {ProvisionOptions} options optional: allowDeletes
+   * @return {ProvisionPlan} changes, conflicts, unmanaged resources and text
+   * @throws {PixelaValidationError} when manifest is invalid
+   * @throws {PixelaError} when request failed
+   */
+  public planManifest(
+    manifest: PixelaManifest,
+    options: ProvisionOptions = {}
+  ): ProvisionPlan {
+    return this.provisioner.plan(manifest, options);
+  }
+
+  /**
+   * apply provisioning plan<br/>
+   * <p>
+   * apply changes of planManifest in order, and stop at the first failure.
+   * plan is applied only when confirm option is true.
+   * manifest is planned again before apply, and plan is refused
+   * when changes differ (account is changed after plan).
+   * </p>
+   * @param {ProvisionPlan} plan plan of planManifest
+   * @param {ApplyPlanOptions} options confirm
+   * @return {ProvisionResult} applied, failed and pending changes
+   * @throws {PixelaValidationError} when plan is not confirmed, has conflicts or is outdated
+   * @throws {PixelaError} when request of planning again failed
+   */
+  public applyPlan(
+    plan: ProvisionPlan,
+    options: ApplyPlanOptions
+  ): ProvisionResult {
+    return this.provisioner.apply(plan, options);
+  }
+
+  /**
+   * parse JSON response<br />
+   * @param {ClientResponse} response client response
+   * @return {T} response value with HTTP metadata
+   * @throws {PixelaError} when request failed (regardless of throwOnError)
+   */
+  private parse<T>(response: ClientResponse): T & { isSuccess: true } {
+    let result;
+
+    try {
+      result = JSON.parse(response.body);
+    } catch (e) {
+      throw PixelaError.fromResponse(response);
+    }
+
+    if (
+      result === null ||
+      typeof result !== "object" ||
+      response.status >= 400 ||
+      result.isSuccess === false
+    ) {
+      throw this.toError(response, result);
+    }
+
+    return { ...result, ...this.metadata(response), isSuccess: true };
+  }
+
+  private parseResponse<T>(
+    response: ClientResponse,
+    throwOnError: boolean = this.throwOnError
+  ): PixelaResult<T> {
+    try {
+      return this.parse<T>(response);
+    } catch (e) {
+      if (e instanceof PixelaError) {
+        return this.handleError(e, throwOnError);
+      }
+
+      throw e;
+    }
+  }
+
+  // response which is not JSON (e.g. SVG)
+  private parseText<T>(
+    response: ClientResponse,
+    toResult: (body: string) => T
+  ): PixelaResult<T> {
+    if (response.status >= 400) {
+      return this.handleError(this.toError(response));
+    }
+
+    return {
+      ...toResult(response.body),
+      ...this.metadata(response),
+      isSuccess: true
+    };
+  }
+
+  private metadata(response: ClientResponse): ResponseMetadata {
+    const metadata: ResponseMetadata = {
+      status: response.status,
+      url: response.url,
+      attempts: response.attempts
+    };
+
+    if (response.cached) {
+      metadata.cached = true;
+    }
+
+    return metadata;
+  }
+
+  private parseOptionalData<R extends { optionalData?: unknown }>(
+    result: R | FailedResponse
+  ): R | FailedResponse {
+    if ("optionalData" in result && typeof result.optionalData === "string") {
+      try {
+        result.optionalData = JSON.parse(result.optionalData);
+      } catch (e) {
+        // optionalData which is not JSON is kept as string
+      }
+    }
+
+    return result;
+  }
+
+  // failed request of graph definition (lookup of graph timezone and type)
+  // is returned as failed response when throwOnError is false.
+  // validation errors are always thrown
+  private handleLookupError<T>(send: () => T): T | FailedResponse {
+    try {
+      return send();
+    } catch (e) {
+      if (e instanceof PixelaError && !(e instanceof PixelaValidationError)) {
+        return this.handleError(e);
+      }
+
+      throw e;
+    }
+  }
+
+  private toDateStr(graphID: string, date: string | Date): string {
+    if (typeof date === "string") {
+      return date;
+    }
+
+    const timezone = this.graphDefinition(graphID).timezone;
+
+    return formatPixelDate_(date, timezone ? timezone : "UTC");
+  }
+
+  // graph type is not checked when validateGraphType option is false.
+  // failed request of graph definition throws PixelaError (see handleLookupError)
+  private graphType(graphID: string): string | undefined {
+    return this.validateGraphType
+      ? this.graphDefinition(graphID).type
+      : undefined;
+  }
+
+  private graphDefinition(graphID: string): GraphDefinitionResponse {
+    if (this.graphDefinitions[graphID] === undefined) {
+      const request = this.requests.getGraphDefinition(graphID);
+
+      this.graphDefinitions[graphID] = this.parse<GraphDefinitionResponse>(
+        this.client.send(request)
+      );
+    }
+
+    return this.graphDefinitions[graphID];
   }
 
-  private buildQuery(url: string, parameters: object): string {
-    let params: Array<string> = [];
+  private toSvgOptions(
+    options?: string | SvgOptions,
+    mode?: string
+  ): SvgOptions {
+    const svgOptions: SvgOptions =
+      typeof options === "string" || options === undefined
+        ? { date: options, mode: mode as SvgMode | undefined }
+        : options;
 
-    for (let key in parameters) {
-      if (parameters[key] != undefined) {
-        params.push(key + "=" + parameters[key]);
+    validateSvgOptions_(svgOptions);
+
+    return svgOptions;
+  }
+
+  private toError(response: ClientResponse, result?: any): PixelaError {
+    if (result === undefined) {
+      try {
+        result = JSON.parse(response.body);
+      } catch (e) {
+        result = null;
       }
     }
 
-    if (params.length == 0) {
-      return url;
+    const message =
+      result !== null && typeof result === "object" && result.message
+        ? String(result.message)
+        : undefined;
+
+    return PixelaError.fromResponse(response, message);
+  }
+
+  private handleError(
+    error: PixelaError,
+    throwOnError: boolean = this.throwOnError
+  ): FailedResponse {
+    if (throwOnError) {
+      throw error;
     }
 
-    return url + "?" + params.join("&");
+    return {
+      message: error.message,
+      isSuccess: false,
+      status: error.status,
+      url: error.url,
+      attempts: error.attempts,
+      error: error
+    };
   }
 }
 
-// NOTE: following code is bad hack for GAS completion.
-//       if you know appropreate handling, please let me know via GitHub issue.
+// NOTE: following code is bad hack for GAS completion.
+//       if you know appropreate handling, please let me know via GitHub issue.
+
+// utilities
+/**
+ * set instance token<br />
+ * @param {string} token user token
+ * @return {void}
+ */
+function setToken(token: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * set error handling mode<br />
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * pixela.setThrowOnError(false);
+ * </pre>
+ * @param {boolean} throwOnError throw error or not (default: true)
+ * @return {void}
+ */
+function setThrowOnError(throwOnError: boolean) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * set retry policy<br />
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * pixela.setRetryPolicy({ maxAttempts: 3 });
+ * </pre>
+ * @param {object} policy retry policy elements
+ * @return {void}
+ */
+function setRetryPolicy(policy: object) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * set HTTP transport<br />
+ * @param {Transport} transport HTTP transport
+ * @return {void}
+ */
+function setTransport(transport: Transport) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * add middleware<br />
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * pixela.use({
+ *   beforeRequest: function(request) {
+ *     request.headers["X-Request-From"] = "sync";
+ *     return request;
+ *   },
+ *   afterResponse: function(request, response, elapsed) {
+ *     Logger.log(response.url + ": " + elapsed + "ms");
+ *   }
+ * });
+ * </pre>
+ * @param {Middleware} middleware middleware
+ * @return {void}
+ */
+function use(middleware: object) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * get client-side quota status<br />
+ * <pre>
+ * var pixela = Pixela.create(username, token, { rateLimit: { requestsPerDay: 10000 } });
+ * var status = pixela.getQuotaStatus();
+ * if (status.remainingToday < records.length) {
+ *   return;
+ * }
+ * </pre>
+ * @return {object} quota status (null when rateLimit option is not set)
+ */
+function getQuotaStatus() {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * create batch<br />
+ * <p>
+ * queue pixel, graph and webhook operations and send them concurrently.
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var batch = pixela.batch({ chunkSize: 20 });
+ * batch.updatePixel(graphID, "20200101", 1);
+ * batch.updatePixel(graphID, "20200102", 2);
+ * var responses = batch.execute();
+ * </pre>
+ * @param {object} options optional: chunkSize (default: 10)
+ * @return {PixelaBatch_} batch instance
+ */
+function batch(options?: object) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+// user API methods
+/**
+ * call post-user API<br/>
+ * <p>
+ * call pixe.la post-user API (https://docs.pixe.la/#/post-user).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token, debug);
+ * var response = pixela.createUser(agreeTermsOfService, notMinor);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} agreeTermsOfService agree terms of service or not
+ * @param {string} notMinor usage is not minor or not
+ * @param {boolean} thanksCode optional: Patreon thanks-code
+ * @return {object} post-user API response value.
+ */
+function createUser(
+  agreeTermsOfService: string,
+  notMinor: string,
+  thanksCode?: boolean
+) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call put-user API<br/>
+ * <p>
+ * call pixe.la put-user API (https://docs.pixe.la/#/put-user).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token, debug);
+ * var response = pixela.updateUser(newToken);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} newToken new user token
+ * @param {boolean} thanksCode optional: Patreon thanks-code
+ * @return {object} put-user API response value.
+ */
+function updateUser(newToken: string, thanksCode?: boolean) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call delete-user API<br/>
+ * <p>
+ * call pixe.la delete-user API (https://docs.pixe.la/#/delete-user).
+ * <pre>
+ * var pixela = Pixela.create(username, token, debug);
+ * var response = pixela.deleteUser();
+ * Logger.log(response);
+ * </pre>
+ * </p>
+ * @return {object} delete-user API response value.
+ */
+function deleteUser() {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+// profile API methods
+/**
+ * call get-profile API<br/>
+ * <p>
+ * get pixe.la user profile page (https://docs.pixe.la/#/get-profile).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.getProfile();
+ * Logger.log(response.html);
+ * </pre>
+ * @return {object} profile page HTML (html) with HTTP metadata
+ */
+function getProfile() {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call put-profile API<br/>
+ * <p>
+ * call pixe.la put-profile API (https://docs.pixe.la/#/put-profile).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.updateProfile({ displayName: "foo", timezone: "Asia/Tokyo" });
+ * Logger.log(response);
+ * </pre>
+ * @param {object} profile profile elements (displayName, gravatarIconEmail, title, timezone, aboutURL, contributeURLs, pinnedGraphID, githubUsername and twitterUsername)
+ * @return {object} put-profile API response value.
+ */
+function updateProfile(profile: object) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+// graph API methods
+/**
+ * call post-graph API<br/>
+ * <p>
+ * call pixe.la post-graph API (https://docs.pixe.la/#/post-graph).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token, debug);
+ * var response = pixela.createGraph(graphID, graphName, unit, type, color, timezone, selfSufficient);
+ * // or graph definition
+ * response = pixela.createGraph({ id: graphID, name: graphName, unit: "commit", type: "int", color: "shibafu" });
+ * Logger.log(response);
+ * </pre>
+ * @param {string|object} graphID pixe.la graph ID or graph definition (id/name/unit/type/color/timezone/selfSufficient/isSecret/publishOptionalData)
+ * @param {string} graphName pixe.la graph name
+ * @param {string} unit graph unit
+ * @param {string} type graph type (int/float)
+ * @param {string} color graph color (shibafu/momiji/sora/ichou/ajisai/kuro)
+ * @param {string} timezone timezone (default: UTC)
+ * @param {string} selfSufficient (default: none)
+ * @param {boolean} isSecret (default: false)
+ * @return {object} post-graph API response value.
+ */
+function createGraph(
+  graphID: string | object,
+  grpahName?: string,
+  unit?: string,
+  type?: string,
+  color?: string,
+  timezone?: string,
+  selfSufficient?: string,
+  isSecret?: boolean
+) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call get-graph API<br/>
+ * <p>
+ * call pixe.la get-graph API (https://docs.pixe.la/#/get-graph).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.getGraph();
+ * Logger.log(response);
+ * </pre>
+ * @return {object} get-graph API response value.
+ */
+function getGraph() {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call get-svg API<br/>
+ * <p>
+ * call pixe.la get-svg API (https://docs.pixe.la/#/get-svg).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.getSvg(graphID, { mode: "short", appearance: "dark" });
+ * Logger.log(response.svg);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {object} options SVG rendering options (date/mode/appearance/lessThan/greaterThan), or pixel date (yyyyMMdd)
+ * @param {string} mode graph display mode when options is date (short/badge/line)
+ * @return {object} SVG document (svg) with HTTP metadata
+ */
+function getSvg(graphID: string, options?: string | object, mode?: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * build SVG graph URL<br/>
+ * <p>
+ * build pixe.la get-svg API URL without request.
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var url = pixela.getSvgURL(graphID, { mode: "line", greaterThan: 10 });
+ * sheet.getRange("A1").setFormula('=IMAGE("' + url + '")');
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {object} options SVG rendering options (date/mode/appearance/lessThan/greaterThan)
+ * @return {string} SVG graph URL
+ */
+function getSvgURL(graphID: string, options?: object) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call put-graph API<br/>
+ * <p>
+ * call pixe.la put-graph API (https://docs.pixe.la/#/put-graph).
+ * with diff option, send only changed elements and return before/after of them.
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.updateGraph(graphID, { name: graphName, color: "momiji" }, { diff: true });
+ * Logger.log(response.diff);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {object} update update elements (name/unit/color/timezone/purgeCacheURLs/selfSufficient/isSecret/publishOptionalData)
+ * @param {object} options optional: diff
+ * @return {object} put-graph API response value.
+ */
+function updateGraph(graphID: string, update: object, options?: object) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call delete-graph API<br/>
+ * <p>
+ * call pixe.la delete-graph API (https://docs.pixe.la/#/delete-graph).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.deleteGraph(graphID);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} delete-graph API response value.
+ */
+function deleteGraph(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call get-graph-pixels API<br/>
+ * <p>
+ * call pixe.la get-graph-pixels API (https://docs.pixe.la/#/get-graph-pixels).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.getGraphPixelsDate(graphID, fromDateStr, toDateStr);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {string|Date} fromDate from date (yyyyMMdd or Date in graph timezone)
+ * @param {string|Date} toDate to date (yyyyMMdd or Date in graph timezone)
+ * @param {boolean} withBody optional: return quantity and optionalData with date
+ * @return {object} get-graph-pixels API response value.
+ */
+function getGraphPixelsDate(
+  graphID: string,
+  fromDate?: string | Date,
+  toDate?: string | Date,
+  withBody?: boolean
+) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call get-graph-stat API<br/>
+ * <p>
+ * call pixe.la get-graph-stat API (https://docs.pixe.la/#/get-graph-stat).
+ * </p>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} get-graph-stat API response value.
+ */
+function getGraphStat(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call get-graph-def API<br/>
+ * <p>
+ * call pixe.la get-graph-def API (https://docs.pixe.la/#/get-graph-def).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.getGraphDefinition(graphID);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} get-graph-def API response value.
+ */
+function getGraphDefinition(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * build graph detail page URL<br/>
+ * <p>
+ * build pixe.la graph detail page URL (https://docs.pixe.la/#/get-graph-html)
+ * without request.
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var url = pixela.getGraphDetailURL(graphID, "simple");
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {string} mode optional: display mode (simple/simple-short)
+ * @return {string} graph detail page URL
+ */
+function getGraphDetailURL(graphID: string, mode?: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+// pixel API methods
+/**
+ * call post-pixel API<br/>
+ * <p>
+ * call pixe.la post-pixel API (https://docs.pixe.la/#/create-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.createPixel(graphID, dateStr, quantity, optionalData);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {string|Date} date pixel date (yyyyMMdd or Date in graph timezone)
+ * @param {number} quantity pixel quantity (int/float)
+ * @param {object} optionalData optional data (js object you want to record)
+ * @return {object} post-pixel API response value.
+ */
+function createPixel(
+  graphID: string,
+  date: string | Date,
+  quantity: number,
+  optionalData?: object
+) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call get-pixel API<br/>
+ * <p>
+ * call pixe.la get-pixel API (https://docs.pixe.la/#/get-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var pixel_value = pixela.getPixel(graphID, dateStr);
+ * Logger.log(pixel_value);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {string|Date} date pixel date (yyyyMMdd or Date in graph timezone)
+ * @return {object} get-pixel API response value (optionalData is parsed object).
+ */
+function getPixel(graphID: string, date: string | Date) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call get-latest-pixel API<br/>
+ * <p>
+ * call pixe.la get-latest-pixel API (https://docs.pixe.la/#/get-latest-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.getLatestPixel(graphID);
+ * Logger.log(response.date + ": " + response.quantity);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} get-latest-pixel API response value (optionalData is parsed object).
+ */
+function getLatestPixel(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call get-today-pixel API<br/>
+ * <p>
+ * call pixe.la get-today-pixel API (https://docs.pixe.la/#/get-today-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.getTodayPixel(graphID, true);
+ * Logger.log(response.quantity);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {boolean} returnEmpty optional: return zero quantity instead of 404 when today's pixel is missing
+ * @return {object} get-today-pixel API response value (optionalData is parsed object).
+ */
+function getTodayPixel(graphID: string, returnEmpty?: boolean) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call put-pixel API<br/>
+ * <p>
+ * call pixe.la put-pixel API (https://docs.pixe.la/#/put-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.updatePixel(graphID, dateStr, quantity, optionalData);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {string|Date} date pixel date (yyyyMMdd or Date in graph timezone)
+ * @param {number} quantity pixel quantity (int/float)
+ * @param {object} optionalData optional data (js object you want to record)
+ * @return {onject} put-pixel API response value.
+ */
+function updatePixel(
+  graphID: string,
+  date: string | Date,
+  quantity: number,
+  optionalData?: object
+) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call batch-post-pixels API<br/>
+ * <p>
+ * call pixe.la batch-post-pixels API (https://docs.pixe.la/#/batch-post-pixels).
+ * pixels are split into chunks and sent in order.
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var responses = pixela.createPixels(graphID, [
+ *   { date: "20200101", quantity: 1 },
+ *   { date: "20200102", quantity: 2.5, optionalData: { memo: "run" } }
+ * ]);
+ * Logger.log(responses);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {object[]} pixels pixels (date (yyyyMMdd), quantity and optionalData)
+ * @param {number} chunkSize optional: number of pixels per request (default: 100)
+ * @return {object[]} batch-post-pixels API response value of each chunk.
+ */
+function createPixels(graphID: string, pixels: object[], chunkSize?: number) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call add-pixel API<br/>
+ * <p>
+ * call pixe.la add-pixel API (https://docs.pixe.la/#/add-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.addPixel(graphID, 1.5);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {number} quantity quantity to add (int/float)
+ * @return {object} add-pixel API response value.
+ */
+function addPixel(graphID: string, quantity: number) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call subtract-pixel API<br/>
+ * <p>
+ * call pixe.la subtract-pixel API (https://docs.pixe.la/#/subtract-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.subtractPixel(graphID, 1.5);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {number} quantity quantity to subtract (int/float)
+ * @return {object} subtract-pixel API response value.
+ */
+function subtractPixel(graphID: string, quantity: number) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call stopwatch API<br/>
+ * <p>
+ * call pixe.la stopwatch API (https://docs.pixe.la/#/post-stopwatch).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.toggleStopwatch(graphID);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} stopwatch API response value.
+ */
+function toggleStopwatch(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * start stopwatch<br/>
+ * <p>
+ * graphs whose unit is minutes use pixe.la stopwatch API.
+ * graphs of other time units (seconds/hours) keep start time in PropertiesService user properties.
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.startStopwatch(graphID);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} stopwatch API response value.
+ */
+function startStopwatch(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * stop stopwatch<br/>
+ * <p>
+ * record elapsed time to today's pixel.
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.stopStopwatch(graphID);
+ * Logger.log(response.elapsedMinutes);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} response value with elapsedMinutes and quantity (local mode only)
+ */
+function stopStopwatch(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * get stopwatch status<br/>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var status = pixela.getStopwatchStatus(graphID);
+ * if (status.running) {
+ *   Logger.log("started at " + status.startedAt);
+ * }
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} running, mode (server/local), startedAt and elapsedMinutes
+ */
+function getStopwatchStatus(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call increment-pixel API<br/>
+ * <p>
+ * call pixe.la increment-pixel API (https://docs.pixe.la/#/increment-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.incPixel(graphID);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} increment-pixel API response value.
+ */
+function incPixel(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call decrement-pixel API<br/>
+ * <p>
+ * call pixe.la decrement-pixel API (https://docs.pixe.la/#/decrement-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.decPixel(graphID);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @return {object} decrement-pixel API response value.
+ */
+function decPixel(graphID: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call delete-pixel API<br/>
+ * <p>
+ * call pixe.la delete-pixel API (https://docs.pixe.la/#/delete-pixel).
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.deletePixel(graphID, dateStr);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {string|Date} date pixel date (yyyyMMdd or Date in graph timezone)
+ * @return {object} decrement-pixel API response value.
+ */
+function deletePixel(graphID: string, date: string | Date) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+// webhook API methods
+/**
+ * call post-webhook API<br/>
+ * <p>
+ * call pixe.la post-webhook API (https://docs.pixe.la/#/post-webhook).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.createWebhook(graphID, "add", 5);
+ * Logger.log(response.webhookHash);
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {string} webhookType webhook type (increment/decrement/add/subtract/stopwatch)
+ * @param {number} quantity quantity of add/subtract webhook
+ * @return {object} post-webhook API response value.
+ */
+function createWebhook(
+  graphID: string,
+  webhookType: string,
+  quantity?: number
+) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * call get-webhook API<br/>
+ * <p>
+ * call pixe.la get-webhook API (https://docs.pixe.la/#/get-webhook).
+ * </p>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.getWebhook();
+ * Logger.log(response);
+ * </pre>
+ * @return {object} get-webhook API response value.
+ */
+function getWebhook() {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
 
-// utilities
 /**
- * set instance token<br />
- * @param {string} token user token
- * @return {void}
+ * find webhooks<br/>
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var webhooks = pixela.findWebhooks(graphID, "increment");
+ * Logger.log(webhooks);
+ * </pre>
+ * @param {string} graphID optional: pixe.la graph ID
+ * @param {string} webhookType optional: webhook type
+ * @return {object[]} matched webhooks
  */
-function setToken(token: string) {
+function findWebhooks(graphID?: string, webhookType?: string) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
-// user API methods
 /**
- * call post-user API<br/>
+ * ensure webhook exists<br/>
  * <p>
- * call pixe.la post-user API (https://docs.pixe.la/#/post-user).
+ * create webhook only when webhook of same graph, type (and quantity) doesn't exist.
  * </p>
  * <pre>
- * var pixela = Pixela.create(username, token, debug);
- * var response = pixela.createUser(agreeTermsOfService, notMinor);
- * Logger.log(response);
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.ensureWebhook(graphID, "increment");
+ * Logger.log(response.webhookHash + " created: " + response.created);
  * </pre>
- * @param {string} agreeTermsOfService agree terms of service or not
- * @param {string} notMinor usage is not minor or not
- * @param {boolean} thanksCode optional: Patreon thanks-code
- * @return {object} post-user API response value.
+ * @param {string} graphID pixe.la graph ID
+ * @param {string} webhookType webhook type (increment/decrement/add/subtract/stopwatch)
+ * @param {number} quantity quantity of add/subtract webhook
+ * @return {object} response value with webhookHash and created
  */
-function createUser(
-  agreeTermsOfService: string,
-  notMinor: string,
-  thanksCode?: boolean
+function ensureWebhook(
+  graphID: string,
+  webhookType: string,
+  quantity?: number
 ) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
@@ -631,268 +2487,245 @@ function createUser(
 }
 
 /**
- * call put-user API<br/>
+ * schedule webhook invocation<br/>
  * <p>
- * call pixe.la put-user API (https://docs.pixe.la/#/put-user).
+ * install time-driven trigger which calls handler function on schedule.
  * </p>
  * <pre>
- * var pixela = Pixela.create(username, token, debug);
- * var response = pixela.updateUser(newToken);
- * Logger.log(response);
+ * function setup() {
+ *   var pixela = Pixela.create(username, token);
+ *   pixela.scheduleWebhook(webhookHash, { handler: "invokePixela", everyDays: 1, atHour: 9 });
+ * }
+ *
+ * function invokePixela(e) {
+ *   Pixela.create(username, token).invokeScheduledWebhook(e);
+ * }
  * </pre>
- * @param {string} newToken new user token
- * @param {boolean} thanksCode optional: Patreon thanks-code
- * @return {object} put-user API response value.
+ * @param {string} webhookHash webhook hash id
+ * @param {object} schedule handler and one of everyMinutes/everyHours/everyDays (with atHour)
+ * @return {string} trigger unique ID
  */
-function updateUser(newToken: string, thanksCode?: boolean) {
+function scheduleWebhook(webhookHash: string, schedule: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call delete-user API<br/>
+ * invoke webhook of trigger<br/>
  * <p>
- * call pixe.la delete-user API (https://docs.pixe.la/#/delete-user).
- * <pre>
- * var pixela = Pixela.create(username, token, debug);
- * var response = pixela.deleteUser();
- * Logger.log(response);
- * </pre>
+ * call from handler function of trigger installed by scheduleWebhook.
  * </p>
- * @return {object} delete-user API response value.
+ * @param {object} event trigger event
+ * @return {object} invoke-webhook API response value.
  */
-function deleteUser() {
+function invokeScheduledWebhook(event: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
-// graph API methods
 /**
- * call post-graph API<br/>
- * <p>
- * call pixe.la post-graph API (https://docs.pixe.la/#/post-graph).
- * </p>
+ * unschedule webhook invocation<br/>
  * <pre>
- * var pixela = Pixela.create(username, token, debug);
- * var response = pixela.createGraph(graphID, graphName, unit, type, color, timezone, selfSufficient);
- * Logger.log(response);
+ * var pixela = Pixela.create(username, token);
+ * pixela.unscheduleWebhook(webhookHash);
  * </pre>
- * @param {string} graphID pixe.la graph ID
- * @param {string} graphName pixe.la graph name
- * @param {string} unit graph unit
- * @param {string} type graph type (int/float)
- * @param {string} color graph color (shibafu/momiji/sora/ichou/ajisai/kuro)
- * @param {string} timezone timezone (default: UTC)
- * @param {string} selfSufficient (default: none)
- * @param {boolean} isSecret (default: false)
- * @return {object} post-graph API response value.
+ * @param {string} webhookHash webhook hash id
+ * @return {number} number of deleted triggers
  */
-function createGraph(
-  graphID: string,
-  grpahName: string,
-  unit: string,
-  type: string,
-  color: string,
-  timezone?: string,
-  selfSufficient?: string,
-  isSecret?: boolean
-) {
+function unscheduleWebhook(webhookHash: string) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call get-graph API<br/>
+ * call invoke-webhook API<br/>
  * <p>
- * call pixe.la get-graph API (https://docs.pixe.la/#/get-graph).
+ * call pixe.la invoke-webhook API (https://docs.pixe.la/#/invoke-webhook).
  * </p>
  * <pre>
  * var pixela = Pixela.create(username, token);
- * var response = pixela.getGraph();
+ * var response = pixela.invokeWebhook(webhookHash);
  * Logger.log(response);
  * </pre>
- * @return {object} get-graph API response value.
+ * @param {string} webhookHash webhook hash id
+ * @return {object} invoke-webhook API response value.
  */
-function getGraph() {
+function invokeWebhook(webhookHash: string) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call get-svg API<br/>
+ * call delete-webhook API<br/>
  * <p>
- * call pixe.la get-svg API (https://docs.pixe.la/#/get-svg).
+ * call pixe.la delete-webhook API (https://docs.pixe.la/#/delete-webhook).
  * </p>
  * <pre>
  * var pixela = Pixela.create(username, token);
- * var response = pixela.getSvg(dateStr, mode);
+ * var response = pixela.deleteWebhook(webhookHash);
  * Logger.log(response);
  * </pre>
- * @param {string} graphID pixe.la graph ID
- * @param {string} dateStr pixel date (yyyyMMdd)
- * @param {string} mode graph display mode (short: grass graph / line: line chart)
- * @return {string} get-svg API response value.
+ * @param {string} webhookHash webhook hash id
+ * @return {object} invoke-webhook API response value.
  */
-function getSvg(graphID: string, dateStr?: string, mode?: string) {
+function deleteWebhook(webhookHash: string) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
+// channel API methods
 /**
- * call put-graph API<br/>
+ * call post-channel API<br/>
  * <p>
- * call pixe.la put-graph API (https://docs.pixe.la/#/put-graph).
+ * call pixe.la post-channel API (https://docs.pixe.la/#/post-channel).
  * </p>
  * <pre>
  * var pixela = Pixela.create(username, token);
- * var response = pixela.updateGraph(graphID, graphName, unit, type, color, timezone, selfSufficient);
+ * var response = pixela.createChannel({
+ *   id: "my-channel",
+ *   name: "My Slack channel",
+ *   type: "slack",
+ *   detail: { url: "https://hooks.slack.com/services/...", userName: "pixela", channelName: "general" }
+ * });
  * Logger.log(response);
  * </pre>
- * @param {string} graphID pixe.la graph ID
- * @param {object} payload update payload (graphName/unit/type/color/timezone/selfSufficient)
- * @return {object} put-graph API response value.
+ * @param {object} channel channel (id, name, type and detail)
+ * @return {object} post-channel API response value.
  */
-function updateGraph(graphID: string, payload: object) {
+function createChannel(channel: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call delete-graph API<br/>
+ * call get-channels API<br/>
  * <p>
- * call pixe.la delete-graph API (https://docs.pixe.la/#/delete-graph).
+ * call pixe.la get-channels API (https://docs.pixe.la/#/get-channels).
  * </p>
  * <pre>
  * var pixela = Pixela.create(username, token);
- * var response = pixela.deleteGraph(graphID);
+ * var response = pixela.getChannels();
  * Logger.log(response);
  * </pre>
- * @param {string} graphID pixe.la graph ID
- * @return {object} delete-graph API response value.
+ * @return {object} get-channels API response value.
  */
-function deleteGraph(graphID: string) {
+function getChannels() {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call get-graph-pixels API<br/>
+ * call put-channel API<br/>
  * <p>
- * call pixe.la get-graph-pixels API (https://docs.pixe.la/#/get-graph-pixels).
+ * call pixe.la put-channel API (https://docs.pixe.la/#/put-channel).
  * </p>
  * <pre>
  * var pixela = Pixela.create(username, token);
- * var response = pixela.getGraphPixelsDate(graphID, fromDateStr, toDateStr);
+ * var response = pixela.updateChannel(channelID, { name: "new name" });
  * Logger.log(response);
  * </pre>
- * @param {string} graphID pixe.la graph ID
- * @param {string} fromDateStr from date (yyyMMdd)
- * @param {string} toDateStr from date (yyyMMdd)
- * @return {object} get-graph-pixels API response value.
+ * @param {string} channelID channel ID
+ * @param {object} channel update channel elements (name, type and detail)
+ * @return {object} put-channel API response value.
  */
-function getGraphPixelsDate(
-  graphID: string,
-  fromDateStr?: string,
-  toDateStr?: string
-) {
+function updateChannel(channelID: string, channel: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call get-graph-stat API<br/>
+ * call delete-channel API<br/>
  * <p>
- * call pixe.la get-graph-stat API (https://docs.pixe.la/#/get-graph-stat).
+ * call pixe.la delete-channel API (https://docs.pixe.la/#/delete-channel).
  * </p>
- * @param {string} graphID pixe.la graph ID
- * @return {object} get-graph-stat API response value.
+ * <pre>
+ * var pixela = Pixela.create(username, token);
+ * var response = pixela.deleteChannel(channelID);
+ * Logger.log(response);
+ * </pre>
+ * @param {string} channelID channel ID
+ * @return {object} delete-channel API response value.
  */
-function getGraphStat(graphID: string) {
+function deleteChannel(channelID: string) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
-// pixel API methods
+// notification API methods
 /**
- * call post-pixel API<br/>
+ * call post-notification API<br/>
  * <p>
- * call pixe.la post-pixel API (https://docs.pixe.la/#/create-pixel).
+ * call pixe.la post-notification API (https://docs.pixe.la/#/post-notification).
  * </p>
- * <h3>Usage</h3>
  * <pre>
  * var pixela = Pixela.create(username, token);
- * var response = pixela.createPixel(graphID, dateStr, quantity, optionalData);
+ * var response = pixela.createNotification(graphID, {
+ *   id: "goal",
+ *   name: "daily goal",
+ *   target: "quantity",
+ *   condition: ">",
+ *   threshold: "5",
+ *   channelID: "my-channel"
+ * });
  * Logger.log(response);
  * </pre>
  * @param {string} graphID pixe.la graph ID
- * @param {string} dateStr pixel date (yyyyMMdd)
- * @param {number} quantity pixel quantity (int/float)
- * @param {object} optionalData optional data (js object you want to record)
- * @return {object} post-pixel API response value.
+ * @param {object} notification notification rule (id, name, target (quantity), condition (&gt;/=/&lt;/multipleOf), threshold, remindBy (0-23) and channelID)
+ * @return {object} post-notification API response value.
  */
-function createPixel(
-  graphID: string,
-  dateStr: string,
-  quantity: number,
-  optionalData?: object
-) {
+function createNotification(graphID: string, notification: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call get-pixel API<br/>
+ * call get-notifications API<br/>
  * <p>
- * call pixe.la get-pixel API (https://docs.pixe.la/#/get-pixel).
+ * call pixe.la get-notifications API (https://docs.pixe.la/#/get-notifications).
  * </p>
- * <h3>Usage</h3>
  * <pre>
  * var pixela = Pixela.create(username, token);
- * var pixel_value = pixela.getPixel(graphID, dateStr);
- * Logger.log(pixel_value);
+ * var response = pixela.getNotifications(graphID);
+ * Logger.log(response);
  * </pre>
  * @param {string} graphID pixe.la graph ID
- * @param {string} dateStr pixel date (yyyyMMdd)
- * @return {object} get-pixel API response value.
+ * @return {object} get-notifications API response value.
  */
-function getPixel(graphID: string, dateStr: string) {
+function getNotifications(graphID: string) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call put-pixel API<br/>
+ * call put-notification API<br/>
  * <p>
- * call pixe.la put-pixel API (https://docs.pixe.la/#/put-pixel).
+ * call pixe.la put-notification API (https://docs.pixe.la/#/put-notification).
  * </p>
- * <h3>Usage</h3>
  * <pre>
  * var pixela = Pixela.create(username, token);
- * var response = pixela.updatePixel(graphID, dateStr, quantity, optionalData);
+ * var response = pixela.updateNotification(graphID, notificationID, { threshold: "10" });
  * Logger.log(response);
  * </pre>
  * @param {string} graphID pixe.la graph ID
- * @param {string} dateStr pixel date (yyyyMMdd)
- * @param {number} quantity pixel quantity (int/float)
- * @param {object} optionalData optional data (js object you want to record)
- * @return {onject} put-pixel API response value.
+ * @param {string} notificationID notification ID
+ * @param {object} notification update notification rule elements
+ * @return {object} put-notification API response value.
  */
-function updatePixel(
+function updateNotification(
   graphID: string,
-  dateStr: string,
-  quantity: number,
-  optionalData?: object
+  notificationID: string,
+  notification: object
 ) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
@@ -900,138 +2733,242 @@ function updatePixel(
 }
 
 /**
- * call increment-pixel API<br/>
+ * call delete-notification API<br/>
  * <p>
- * call pixe.la increment-pixel API (https://docs.pixe.la/#/increment-pixel).
+ * call pixe.la delete-notification API (https://docs.pixe.la/#/delete-notification).
  * </p>
- * <h3>Usage</h3>
  * <pre>
  * var pixela = Pixela.create(username, token);
- * var response = pixela.incPixel(graphID);
+ * var response = pixela.deleteNotification(graphID, notificationID);
  * Logger.log(response);
  * </pre>
  * @param {string} graphID pixe.la graph ID
- * @return {object} increment-pixel API response value.
+ * @param {string} notificationID notification ID
+ * @return {object} delete-notification API response value.
  */
-function incPixel(graphID: string) {
+function deleteNotification(graphID: string, notificationID: string) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
+// Google Sheets methods
 /**
- * call decrement-pixel API<br/>
+ * push sheet rows to graph<br/>
  * <p>
- * call pixe.la decrement-pixel API (https://docs.pixe.la/#/decrement-pixel).
+ * rows of the same date are aggregated (sum/max/last), and pixels unchanged
+ * since last sync are skipped. status and error columns are written back to sheet.
  * </p>
- * <h3>Usage</h3>
  * <pre>
- * var pixela = Pixela.create(username, token);
- * var response = pixela.decPixel(graphID);
- * Logger.log(response);
+ * // run from time-driven trigger
+ * function syncPixela() {
+ *   var sheet = SpreadsheetApp.getActive().getSheetByName("log");
+ *   var pixela = Pixela.create(username, token);
+ *   var result = pixela.syncSheet(sheet, {
+ *     graphID: graphID,
+ *     dateColumn: "date",
+ *     quantityColumn: "minutes",
+ *     optionalDataColumns: { memo: "memo" },
+ *     aggregation: "sum",
+ *     statusColumn: "status",
+ *     errorColumn: "error"
+ *   });
+ *   Logger.log(result);
+ * }
  * </pre>
- * @param {string} graphID pixe.la graph ID
- * @return {object} decrement-pixel API response value.
+ * @param {object} sheet sheet
+ * @param {object} options graphID, dateColumn, quantityColumn, optionalDataColumns, aggregation (sum/max/last), headerRows, statusColumn, errorColumn and timezone
+ * @return {object} number of pushed, unchanged and failed pixels
  */
-function decPixel(graphID: string) {
+function syncSheet(sheet: object, options: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call delete-pixel API<br/>
+ * export pixels of graph<br/>
  * <p>
- * call pixe.la delete-pixel API (https://docs.pixe.la/#/delete-pixel).
+ * optionalData keys are flattened into columns.
+ * without from option, pixels are fetched back until all pixels of graph are fetched.
  * </p>
- * <h3>Usage</h3>
  * <pre>
- * var pixela = Pixela.create(username, token);
- * var response = pixela.deletePixel(graphID, dateStr);
- * Logger.log(response);
+ * var table = pixela.exportPixels(graphID, { from: "20200101" });
+ * Logger.log(table.header);
+ * Logger.log(table.rows);
  * </pre>
  * @param {string} graphID pixe.la graph ID
- * @param {string} dateStr pixel date (yyyyMMdd)
- * @return {object} decrement-pixel API response value.
+ * @param {object} options optional: from, to, quantityFormat (number/string/function) and dateFormat (yyyyMMdd/yyyy-MM-dd)
+ * @return {object} header and rows sorted by date
  */
-function deletePixel(graphID: string, dateStr: string) {
+function exportPixels(graphID: string, options?: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
-// webhook API methods
 /**
- * call post-webhook API<br/>
- * <p>
- * call pixe.la post-webhook API (https://docs.pixe.la/#/post-webhook).
- * </p>
+ * export pixels of graph as CSV<br/>
  * <pre>
- * var pixela = Pixela.create(username, token);
- * var response = pixela.createWebhook(graphID, webhookType);
- * Logger.log(response);
+ * var csv = pixela.exportPixelsToCSV(graphID, { quantityFormat: "string" });
  * </pre>
  * @param {string} graphID pixe.la graph ID
- * @param {string} webhookType webhook type
- * @return {object} post-webhook API response value.
+ * @param {object} options optional: from, to, quantityFormat and dateFormat
+ * @return {string} CSV
  */
-function createWebhook(graphID: string, webhookType: string) {
+function exportPixelsToCSV(graphID: string, options?: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call get-webhook API<br/>
+ * export pixels of graph to CSV file on Google Drive<br/>
+ * <pre>
+ * var fileId = pixela.exportPixelsToDrive(graphID, { fileName: "pixels.csv" });
+ * </pre>
+ * @param {string} graphID pixe.la graph ID
+ * @param {object} options optional: fileName, folderId, fileId (overwrite), from, to, quantityFormat and dateFormat
+ * @return {string} file ID
+ */
+function exportPixelsToDrive(graphID: string, options?: object) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * export pixels of graph to sheet<br/>
  * <p>
- * call pixe.la get-webhook API (https://docs.pixe.la/#/get-webhook).
+ * with incremental option, only pixels since last date in sheet are fetched.
  * </p>
  * <pre>
- * var pixela = Pixela.create(username, token);
- * var response = pixela.getWebhook();
- * Logger.log(response);
+ * // run from time-driven trigger
+ * function exportPixela() {
+ *   var sheet = SpreadsheetApp.getActive().getSheetByName("export");
+ *   var pixela = Pixela.create(username, token);
+ *   var result = pixela.exportPixelsToSheet(graphID, sheet, { incremental: true });
+ *   Logger.log(result);
+ * }
  * </pre>
- * @return {object} get-webhook API response value.
+ * @param {string} graphID pixe.la graph ID
+ * @param {object} sheet sheet
+ * @param {object} options optional: incremental, from, to, quantityFormat and dateFormat
+ * @return {object} number of fetched pixels and rows in sheet
  */
-function getWebhook() {
+function exportPixelsToSheet(graphID: string, sheet: object, options?: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
+// Google Forms methods
 /**
- * call invoke-webhook API<br/>
+ * install form submit trigger which records pixel<br/>
+ * <pre>
+ * // run once
+ * function setup() {
+ *   var pixela = Pixela.create(username, token);
+ *   pixela.installFormTrigger(FormApp.getActiveForm(), "recordPixela", {
+ *     graphID: graphID,
+ *     quantityQuestion: "How many minutes?",
+ *     optionalDataQuestions: { memo: "Memo" },
+ *     mode: "add"
+ *   });
+ * }
+ *
+ * function recordPixela(e) {
+ *   Pixela.create(username, token).handleFormSubmit(e);
+ * }
+ * </pre>
+ * @param {object} form form or form ID
+ * @param {string} handler name of global function which calls handleFormSubmit
+ * @param {object} mapping graphID (or graphIDQuestion and graphIDs), dateQuestion, quantityQuestion (or quantity), optionalDataQuestions, mode (add/overwrite), emailQuestion and notifyOnFailure
+ * @return {string} trigger unique ID
+ */
+function installFormTrigger(form: object, handler: string, mapping: object) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * record pixel from form submission<br/>
  * <p>
- * call pixe.la invoke-webhook API (https://docs.pixe.la/#/invoke-webhook).
+ * failure is reported to respondent by email.
  * </p>
  * <pre>
- * var pixela = Pixela.create(username, token);
- * var response = pixela.invokeWebhook(webhookHash);
- * Logger.log(response);
+ * var result = pixela.handleFormSubmit(e);
+ * Logger.log(result);
  * </pre>
- * @param {string} webhookHash webhook hash id
- * @return {object} invoke-webhook API response value.
+ * @param {object} event form submit event
+ * @param {object} mapping optional: mapping (default: mapping of installed trigger)
+ * @return {object} recorded pixel or error
  */
-function invokeWebhook(webhookHash: string) {
+function handleFormSubmit(event: object, mapping?: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
 }
 
 /**
- * call delete-webhook API<br/>
+ * delete trigger installed by installFormTrigger<br/>
+ * <pre>
+ * pixela.uninstallFormTrigger(triggerUid);
+ * </pre>
+ * @param {string} triggerUid trigger unique ID
+ * @return {boolean} true when trigger is deleted
+ */
+function uninstallFormTrigger(triggerUid: string) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+// provisioning methods
+/**
+ * plan provisioning of manifest<br/>
  * <p>
- * call pixe.la delete-webhook API (https://docs.pixe.la/#/delete-webhook).
+ * resources not in manifest are deleted only with allowDeletes option.
  * </p>
  * <pre>
- * var pixela = Pixela.create(username, token);
- * var response = pixela.deleteWebhook(webhookHash);
- * Logger.log(response);
+ * var plan = pixela.planManifest({
+ *   graphs: [
+ *     {
+ *       id: "running",
+ *       name: "Running",
+ *       unit: "km",
+ *       type: "float",
+ *       color: "sora",
+ *       timezone: "Asia/Tokyo",
+ *       webhooks: [{ type: "add", quantity: 5 }],
+ *       notifications: []
+ *     }
+ *   ]
+ * });
+ * Logger.log(plan.text);
  * </pre>
- * @param {string} webhookHash webhook hash id
- * @return {object} invoke-webhook API response value.
+ * @param {object} manifest graphs with webhooks and notifications
+ * @param {object} options optional: allowDeletes
+ * @return {object} changes, conflicts, unmanaged resources and text
  */
-function deleteWebhook(webhookHash: string) {
+function planManifest(manifest: object, options?: object) {
+  throw new Error(
+    "This method can't call directry. Please call via `create` method return value."
+  );
+}
+
+/**
+ * apply provisioning plan<br/>
+ * <pre>
+ * var result = pixela.applyPlan(plan, { confirm: true });
+ * Logger.log(result.failed);
+ * </pre>
+ * @param {object} plan plan of planManifest
+ * @param {object} options confirm
+ * @return {object} applied, failed and pending changes
+ */
+function applyPlan(plan: object, options: object) {
   throw new Error(
     "This method can't call directry. Please call via `create` method return value."
   );
@@ -0,0 +1,656 @@
+/**
+ * @file pixe.la declarative provisioning
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+/**
+ * provisioning manifest<br/>
+ * <p>
+ * graphs with their webhooks and notification rules.
+ * graph elements omitted in manifest are left unchanged.
+ * webhooks and notifications are managed only when the list is given
+ * (empty list means none).
+ * </p>
+ */
+interface PixelaManifest {
+  graphs: ManifestGraph[];
+}
+
+interface ManifestGraph extends GraphDefinition {
+  // up to 5 https URLs purged on pixel update
+  purgeCacheURLs?: string[];
+  webhooks?: ManifestWebhook[];
+  notifications?: NotificationsItem[];
+}
+
+interface ManifestWebhook {
+  type: WebhookType;
+  // quantity of add/subtract webhook
+  quantity?: number;
+}
+
+interface ProvisionOptions {
+  // delete graphs, webhooks and notifications not in manifest (default: false)
+  allowDeletes?: boolean;
+}
+
+interface ApplyPlanOptions {
+  // plan is applied only when confirmed
+  confirm: boolean;
+}
+
+type ProvisionAction = "create" | "update" | "delete";
+
+type ProvisionResource = "graph" | "webhook" | "notification";
+
+// before/after of changed elements
+interface ProvisionDiff {
+  [element: string]: { before: unknown; after: unknown };
+}
+
+interface ProvisionChange {
+  action: ProvisionAction;
+  resource: ProvisionResource;
+  graphID: string;
+  // webhook hash or notification ID (except new webhook)
+  id?: string;
+  // human-readable change
+  description: string;
+  // changed elements of update
+  diff?: ProvisionDiff;
+  // elements to send
+  graph?: ManifestGraph;
+  graphUpdate?: GraphUpdate;
+  webhook?: ManifestWebhook;
+  notification?: Partial<NotificationsItem>;
+}
+
+interface ProvisionPlan {
+  // in order of application (deletes last)
+  changes: ProvisionChange[];
+  // differences which can't be applied (e.g. graph type)
+  conflicts: string[];
+  // resources not in manifest, kept because deletes are not allowed
+  unmanaged: string[];
+  // human-readable plan
+  text: string;
+  // planned again by applyPlan to check that account is not changed
+  manifest: PixelaManifest;
+  options: ProvisionOptions;
+}
+
+interface ProvisionResult {
+  applied: ProvisionChange[];
+  // change which failed, application is stopped at it
+  failed?: { change: ProvisionChange; error: Error };
+  // changes not applied because of failure
+  pending: ProvisionChange[];
+}
+
+const NOTIFICATION_FIELDS_: (keyof NotificationsItem)[] = [
+  "name",
+  "target",
+  "condition",
+  "threshold",
+  "remindBy",
+  "channelID"
+];
+
+/**
+ * declarative provisioning<br/>
+ * <p>
+ * compare manifest with graphs, webhooks and notifications of user,
+ * and plan/apply creates, updates and deletes.
+ * internal use of Pixela_ class
+ * </p>
+ */
+class Provisioner_ {
+  private pixela: Pixela_;
+  private invalidateCache: () => void;
+
+  constructor(pixela: Pixela_, invalidateCache: () => void) {
+    this.pixela = pixela;
+    this.invalidateCache = invalidateCache;
+  }
+
+  public plan(
+    manifest: PixelaManifest,
+    options: ProvisionOptions
+  ): ProvisionPlan {
+    this.validate(manifest);
+
+    const allowDeletes = options.allowDeletes === true;
+    const graphs = this.required(this.pixela.getGraph()).graphs;
+    const webhooks = this.required(this.pixela.getWebhook()).webhooks;
+    const plan: ProvisionPlan = {
+      changes: [],
+      conflicts: [],
+      unmanaged: [],
+      text: "",
+      manifest: manifest,
+      options: options
+    };
+    const deletes: ProvisionChange[] = [];
+
+    manifest.graphs.forEach(graph => {
+      const current = graphs.filter(item => item.id === graph.id)[0];
+
+      if (current === undefined) {
+        plan.changes.push({
+          action: "create",
+          resource: "graph",
+          graphID: graph.id,
+          description: "create graph " + graph.id,
+          graph: graph
+        });
+      } else {
+        this.planGraph(graph, current, plan);
+      }
+
+      if (graph.webhooks !== undefined) {
+        this.planWebhooks(
+          graph,
+          webhooks.filter(webhook => webhook.graphID === graph.id),
+          allowDeletes,
+          plan,
+          deletes
+        );
+      }
+
+      if (graph.notifications !== undefined) {
+        const notifications =
+          current !== undefined
+            ? this.required(this.pixela.getNotifications(graph.id))
+                .notifications
+            : [];
+
+        this.planNotifications(
+          graph,
+          notifications,
+          allowDeletes,
+          plan,
+          deletes
+        );
+      }
+    });
+
+    graphs
+      .filter(item => !manifest.graphs.some(graph => graph.id === item.id))
+      .forEach(item => {
+        if (allowDeletes) {
+          // webhooks and notifications are deleted with graph
+          deletes.push({
+            action: "delete",
+            resource: "graph",
+            graphID: item.id,
+            description: "delete graph " + item.id
+          });
+        } else {
+          plan.unmanaged.push("graph " + item.id);
+        }
+      });
+
+    // children are deleted before graph
+    plan.changes.push(
+      ...deletes.filter(change => change.resource !== "graph"),
+      ...deletes.filter(change => change.resource === "graph")
+    );
+    plan.text = this.format(plan);
+
+    return plan;
+  }
+
+  public apply(
+    plan: ProvisionPlan,
+    options: ApplyPlanOptions
+  ): ProvisionResult {
+    if (options === undefined || options.confirm !== true) {
+      throwIfInvalid_("plan", ["plan must be confirmed (confirm: true)"]);
+    }
+
+    if (plan.manifest === undefined) {
+      throwIfInvalid_("plan", ["plan must be created by planManifest"]);
+    }
+
+    throwIfInvalid_("plan", plan.conflicts);
+
+    // account may be changed after plan, so current state is planned again
+    // from responses which are not cached
+    this.invalidateCache();
+    const current = this.plan(plan.manifest, plan.options);
+
+    throwIfInvalid_("plan", current.conflicts);
+
+    if (JSON.stringify(current.changes) !== JSON.stringify(plan.changes)) {
+      throwIfInvalid_("plan", [
+        "plan is outdated, review plan again:\n" + current.text
+      ]);
+    }
+
+    const result: ProvisionResult = { applied: [], pending: [] };
+
+    plan.changes.forEach(change => {
+      if (result.failed !== undefined) {
+        result.pending.push(change);
+        return;
+      }
+
+      try {
+        this.applyChange(change);
+        result.applied.push(change);
+      } catch (e) {
+        result.failed = { change: change, error: e as Error };
+      }
+    });
+
+    return result;
+  }
+
+  private planGraph(
+    graph: ManifestGraph,
+    current: GraphsItem,
+    plan: ProvisionPlan
+  ): void {
+    if (current.type !== graph.type) {
+      plan.conflicts.push(
+        "graph " +
+          graph.id +
+          ": type can't be changed (" +
+          current.type +
+          " -> " +
+          graph.type +
+          ")"
+      );
+    }
+
+    // elements omitted in manifest (undefined) are not compared
+    const update: GraphUpdate = {
+      name: graph.name,
+      unit: graph.unit,
+      color: graph.color,
+      timezone: graph.timezone,
+      purgeCacheURLs: graph.purgeCacheURLs,
+      selfSufficient: graph.selfSufficient,
+      isSecret: graph.isSecret,
+      publishOptionalData: graph.publishOptionalData
+    };
+    const diff: ProvisionDiff = diffGraph_(current, update);
+    const changed: GraphUpdate = {};
+    const pick = <K extends keyof GraphUpdate>(element: K): void => {
+      changed[element] = update[element];
+    };
+
+    (Object.keys(diff) as (keyof GraphUpdate)[]).forEach(pick);
+
+    if (Object.keys(diff).length > 0) {
+      plan.changes.push({
+        action: "update",
+        resource: "graph",
+        graphID: graph.id,
+        description: "update graph " + graph.id + this.formatDiff(diff),
+        diff: diff,
+        graphUpdate: changed
+      });
+    }
+  }
+
+  private planWebhooks(
+    graph: ManifestGraph,
+    current: WebhooksItem[],
+    allowDeletes: boolean,
+    plan: ProvisionPlan,
+    deletes: ProvisionChange[]
+  ): void {
+    const remaining = current.slice();
+
+    (graph.webhooks as ManifestWebhook[]).forEach(webhook => {
+      const index = remaining.findIndex(
+        item =>
+          item.type === webhook.type &&
+          (webhook.quantity === undefined ||
+            Number(item.quantity) === webhook.quantity)
+      );
+
+      if (index !== -1) {
+        remaining.splice(index, 1);
+        return;
+      }
+
+      plan.changes.push({
+        action: "create",
+        resource: "webhook",
+        graphID: graph.id,
+        description:
+          "create webhook " + this.describeWebhook(graph.id, webhook),
+        webhook: webhook
+      });
+    });
+
+    remaining.forEach(item => {
+      const description =
+        "webhook " +
+        item.webhookHash +
+        " (" +
+        this.describeWebhook(item.graphID, {
+          type: item.type,
+          quantity:
+            item.quantity !== undefined ? Number(item.quantity) : undefined
+        }) +
+        ")";
+
+      if (allowDeletes) {
+        deletes.push({
+          action: "delete",
+          resource: "webhook",
+          graphID: item.graphID,
+          id: item.webhookHash,
+          description: "delete " + description
+        });
+      } else {
+        plan.unmanaged.push(description);
+      }
+    });
+  }
+
+  private planNotifications(
+    graph: ManifestGraph,
+    current: NotificationsItem[],
+    allowDeletes: boolean,
+    plan: ProvisionPlan,
+    deletes: ProvisionChange[]
+  ): void {
+    const notifications = graph.notifications as NotificationsItem[];
+
+    notifications.forEach(notification => {
+      const item = current.filter(
+        candidate => candidate.id === notification.id
+      )[0];
+
+      if (item === undefined) {
+        plan.changes.push({
+          action: "create",
+          resource: "notification",
+          graphID: graph.id,
+          id: notification.id,
+          description:
+            "create notification " + graph.id + "/" + notification.id,
+          notification: notification
+        });
+        return;
+      }
+
+      const diff: ProvisionDiff = {};
+      const update: Partial<NotificationsItem> = {};
+
+      NOTIFICATION_FIELDS_.forEach(element => {
+        const before = item[element];
+        const after = notification[element];
+
+        if (after !== undefined && String(before) !== String(after)) {
+          diff[element] = { before: before, after: after };
+          update[element] = after;
+        }
+      });
+
+      if (Object.keys(diff).length > 0) {
+        plan.changes.push({
+          action: "update",
+          resource: "notification",
+          graphID: graph.id,
+          id: notification.id,
+          description:
+            "update notification " +
+            graph.id +
+            "/" +
+            notification.id +
+            this.formatDiff(diff),
+          diff: diff,
+          notification: update
+        });
+      }
+    });
+
+    current
+      .filter(item => !notifications.some(n => n.id === item.id))
+      .forEach(item => {
+        const description = "notification " + graph.id + "/" + item.id;
+
+        if (allowDeletes) {
+          deletes.push({
+            action: "delete",
+            resource: "notification",
+            graphID: graph.id,
+            id: item.id,
+            description: "delete " + description
+          });
+        } else {
+          plan.unmanaged.push(description);
+        }
+      });
+  }
+
+  private applyChange(change: ProvisionChange): void {
+    switch (change.resource + "." + change.action) {
+      case "graph.create": {
+        const graph = change.graph as ManifestGraph;
+        const definition: GraphDefinition = {
+          id: graph.id,
+          name: graph.name,
+          unit: graph.unit,
+          type: graph.type,
+          color: graph.color,
+          timezone: graph.timezone,
+          selfSufficient: graph.selfSufficient,
+          isSecret: graph.isSecret,
+          publishOptionalData: graph.publishOptionalData
+        };
+
+        this.required(this.pixela.createGraph(definition));
+
+        // post-graph API doesn't accept purgeCacheURLs
+        if (graph.purgeCacheURLs !== undefined) {
+          this.required(
+            this.pixela.updateGraph(graph.id, {
+              purgeCacheURLs: graph.purgeCacheURLs
+            })
+          );
+        }
+        break;
+      }
+      case "graph.update":
+        this.required(
+          this.pixela.updateGraph(
+            change.graphID,
+            change.graphUpdate as GraphUpdate
+          )
+        );
+        break;
+      case "graph.delete":
+        this.required(this.pixela.deleteGraph(change.graphID));
+        break;
+      case "webhook.create": {
+        const webhook = change.webhook as ManifestWebhook;
+
+        this.required(
+          this.pixela.createWebhook(
+            change.graphID,
+            webhook.type,
+            webhook.quantity
+          )
+        );
+        break;
+      }
+      case "webhook.delete":
+        this.required(this.pixela.deleteWebhook(change.id as string));
+        break;
+      case "notification.create":
+        this.required(
+          this.pixela.createNotification(
+            change.graphID,
+            change.notification as NotificationsItem
+          )
+        );
+        break;
+      case "notification.update":
+        this.required(
+          this.pixela.updateNotification(
+            change.graphID,
+            change.id as string,
+            change.notification as Partial<NotificationsItem>
+          )
+        );
+        break;
+      case "notification.delete":
+        this.required(
+          this.pixela.deleteNotification(change.graphID, change.id as string)
+        );
+        break;
+      default:
+        throwIfInvalid_("plan", [
+          "unknown change: " + change.resource + " " + change.action
+        ]);
+    }
+  }
+
+  // throw failed response of throwOnError: false
+  private required<T>(response: T): Exclude<T, { isSuccess: false }> {
+    const basic = (response as unknown) as BasicResponse;
+
+    if (basic.isSuccess === false) {
+      throw basic.error;
+    }
+
+    return response as Exclude<T, { isSuccess: false }>;
+  }
+
+  private validate(manifest: PixelaManifest): void {
+    const problems: string[] = [];
+    const collect = (prefix: string, validate: () => void): void => {
+      try {
+        validate();
+      } catch (e) {
+        if (!(e instanceof PixelaValidationError)) {
+          throw e;
+        }
+
+        problems.push(...e.problems.map(problem => prefix + ": " + problem));
+      }
+    };
+
+    if (
+      manifest === undefined ||
+      manifest === null ||
+      !Array.isArray(manifest.graphs)
+    ) {
+      throwIfInvalid_("manifest", ["graphs must be array"]);
+    }
+
+    const graphIDs: string[] = [];
+
+    manifest.graphs.forEach((graph, index) => {
+      const prefix = "graphs[" + (graph.id || index) + "]";
+
+      collect(prefix, () => validateGraphDefinition_(graph, false));
+
+      if (graph.purgeCacheURLs !== undefined) {
+        collect(prefix, () =>
+          validateGraphUpdate_({ purgeCacheURLs: graph.purgeCacheURLs })
+        );
+      }
+
+      if (graphIDs.indexOf(graph.id) !== -1) {
+        problems.push(prefix + ": duplicated graph ID");
+      }
+
+      graphIDs.push(graph.id);
+
+      (graph.webhooks || []).forEach(webhook =>
+        collect(prefix + ".webhooks", () => {
+          validateWebhook_(webhook.type, webhook.quantity);
+
+          if (webhook.quantity !== undefined) {
+            validateQuantity_("quantity", webhook.quantity, graph.type);
+          }
+        })
+      );
+
+      const notificationIDs: string[] = [];
+
+      (graph.notifications || []).forEach(notification => {
+        collect(prefix + ".notifications", () =>
+          validateNotification_(notification, false)
+        );
+
+        if (notificationIDs.indexOf(notification.id) !== -1) {
+          problems.push(
+            prefix + ".notifications: duplicated ID: " + notification.id
+          );
+        }
+
+        notificationIDs.push(notification.id);
+      });
+    });
+
+    throwIfInvalid_("manifest", problems);
+  }
+
+  private describeWebhook(graphID: string, webhook: ManifestWebhook): string {
+    return (
+      graphID +
+      " " +
+      webhook.type +
+      (webhook.quantity !== undefined ? " " + webhook.quantity : "")
+    );
+  }
+
+  private formatDiff(diff: ProvisionDiff): string {
+    return (
+      ": " +
+      Object.keys(diff)
+        .map(
+          element =>
+            element +
+            " " +
+            JSON.stringify(diff[element].before) +
+            " -> " +
+            JSON.stringify(diff[element].after)
+        )
+        .join(", ")
+    );
+  }
+
+  private format(plan: ProvisionPlan): string {
+    const marks: { [action: string]: string } = {
+      create: "+",
+      update: "~",
+      delete: "-"
+    };
+    const count = (action: ProvisionAction): number =>
+      plan.changes.filter(change => change.action === action).length;
+
+    return plan.changes
+      .map(change => marks[change.action] + " " + change.description)
+      .concat(plan.conflicts.map(conflict => "! " + conflict))
+      .concat(
+        plan.unmanaged.map(
+          resource => "= " + resource + " is not in manifest (kept)"
+        )
+      )
+      .concat([
+        "Plan: " +
+          count("create") +
+          " to create, " +
+          count("update") +
+          " to update, " +
+          count("delete") +
+          " to delete" +
+          (plan.conflicts.length > 0
+            ? ", " + plan.conflicts.length + " conflicts"
+            : "") +
+          "."
+      ])
+      .join("\n");
+  }
+}
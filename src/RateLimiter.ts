@@ -0,0 +1,179 @@
+/**
+ * @file pixe.la API client-side rate limiter
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+interface RateLimitOptions {
+  // maximum requests per second (default: no limit)
+  requestsPerSecond?: number;
+  // maximum requests per day (UTC) (default: 20000, UrlFetch quota of consumer account)
+  requestsPerDay?: number;
+  // store of per-second counter (default: CacheService user cache)
+  secondStore?: KeyValueStore;
+  // store of per-day counter (default: PropertiesService user properties)
+  dayStore?: KeyValueStore;
+}
+
+interface QuotaStatus {
+  requestsPerSecond: number | null;
+  requestsPerDay: number;
+  usedToday: number;
+  remainingToday: number;
+  // UTC date of counter (yyyy-MM-dd)
+  day: string;
+}
+
+/**
+ * client-side rate limiter<br/>
+ * <p>
+ * counters are kept per pixe.la username, and updated under
+ * LockService user lock on Google Apps Script.
+ * internal use of Client_ class
+ * </p>
+ */
+class RateLimiter_ {
+  private requestsPerSecond: number | null;
+  private requestsPerDay: number;
+  private secondStore: KeyValueStore;
+  private dayStore: KeyValueStore;
+  private secondKey: string;
+  private dayKey: string;
+
+  constructor(options: RateLimitOptions, username: string) {
+    this.requestsPerSecond =
+      options.requestsPerSecond !== undefined
+        ? options.requestsPerSecond
+        : null;
+    this.requestsPerDay =
+      options.requestsPerDay !== undefined ? options.requestsPerDay : 20000;
+    this.secondKey = "pixela.rateLimit." + username + ".second";
+    this.dayKey = "pixela.rateLimit." + username + ".day";
+
+    if (options.secondStore !== undefined) {
+      this.secondStore = options.secondStore;
+    } else {
+      this.secondStore =
+        typeof CacheService !== "undefined"
+          ? new CacheStore_()
+          : new MemoryStore_();
+    }
+
+    if (options.dayStore !== undefined) {
+      this.dayStore = options.dayStore;
+    } else {
+      this.dayStore = defaultStore_();
+    }
+  }
+
+  /**
+   * acquire permission of requests sent at once<br />
+   * <p>
+   * wait (by sleep function) until next second when requests exceed
+   * per-second limit, so that all permitted requests are in the same second.
+   * count should not exceed limitChunkSize.
+   * </p>
+   * @param {function} sleep sleep function
+   * @param {number} count optional: number of requests (default: 1)
+   * @return {number} number of permitted requests (less than count when per-day limit is reached)
+   */
+  public acquire(
+    sleep: (milliseconds: number) => void,
+    count: number = 1
+  ): number {
+    return withUserLock_(() => {
+      const status = this.getStatus();
+      const permitted = Math.min(count, status.remainingToday);
+
+      if (permitted <= 0) {
+        return 0;
+      }
+
+      if (this.requestsPerSecond !== null) {
+        let now = Date.now();
+        let second = this.readCounter(
+          this.secondStore,
+          this.secondKey,
+          String(Math.floor(now / 1000))
+        );
+
+        if (second.count + permitted > this.requestsPerSecond) {
+          sleep(1000 - (now % 1000));
+          now = Date.now();
+          second = { period: String(Math.floor(now / 1000)), count: 0 };
+        }
+
+        this.writeCounter(this.secondStore, this.secondKey, {
+          period: second.period,
+          count: second.count + permitted
+        });
+      }
+
+      this.writeCounter(this.dayStore, this.dayKey, {
+        period: status.day,
+        count: status.usedToday + permitted
+      });
+
+      return permitted;
+    });
+  }
+
+  /**
+   * limit number of requests sent at once<br />
+   * @param {number} chunkSize number of requests sent at once
+   * @return {number} chunkSize up to per-second limit
+   */
+  public limitChunkSize(chunkSize: number): number {
+    return this.requestsPerSecond !== null
+      ? Math.max(1, Math.min(chunkSize, Math.floor(this.requestsPerSecond)))
+      : chunkSize;
+  }
+
+  /**
+   * get quota status<br />
+   * @return {QuotaStatus} quota status
+   */
+  public getStatus(): QuotaStatus {
+    const day = new Date().toISOString().slice(0, 10);
+    const counter = this.readCounter(this.dayStore, this.dayKey, day);
+
+    return {
+      requestsPerSecond: this.requestsPerSecond,
+      requestsPerDay: this.requestsPerDay,
+      usedToday: counter.count,
+      remainingToday: Math.max(0, this.requestsPerDay - counter.count),
+      day: day
+    };
+  }
+
+  private readCounter(
+    store: KeyValueStore,
+    key: string,
+    period: string
+  ): { period: string; count: number } {
+    const value = store.get(key);
+
+    if (value !== null) {
+      try {
+        const counter = JSON.parse(value);
+
+        if (counter.period === period) {
+          return { period: period, count: Number(counter.count) || 0 };
+        }
+      } catch (e) {
+        // broken counter is reset
+      }
+    }
+
+    return { period: period, count: 0 };
+  }
+
+  private writeCounter(
+    store: KeyValueStore,
+    key: string,
+    counter: { period: string; count: number }
+  ): void {
+    store.put(key, JSON.stringify(counter));
+  }
+}
@@ -0,0 +1,608 @@
+/**
+ * @file pixe.la API request builder
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+interface ClientRequest {
+  method: HttpMethod;
+  url: string;
+  payload?: object;
+  // cacheable endpoint of GET request
+  endpoint?: CacheEndpoint;
+  // graph which request reads or modifies (for cache invalidation)
+  graphID?: string;
+}
+
+/**
+ * pixe.la API request builder<br/>
+ * <p>
+ * build request (method, URL and payload) of each pixe.la API.
+ * internal use of Pixela_ and PixelaBatch_ class
+ * </p>
+ */
+class RequestBuilder_ {
+  private baseURL: string;
+  private apiVersion: string;
+  private username: string;
+
+  constructor(baseURL: string, apiVersion: string, username: string) {
+    this.baseURL = baseURL;
+    this.apiVersion = apiVersion;
+    this.username = username;
+  }
+
+  // user API requests
+  public createUser(
+    token: string,
+    agreeTermsOfService: string,
+    notMinor: string,
+    thanksCode?: boolean
+  ): ClientRequest {
+    const payload = {
+      username: this.username,
+      token: token,
+      agreeTermsOfService: agreeTermsOfService,
+      notMinor: notMinor,
+      thanksCode: thanksCode !== undefined ? thanksCode : false
+    };
+
+    return { method: "post", url: this.generateUserURL(), payload: payload };
+  }
+
+  public updateUser(newToken: string, thanksCode?: boolean): ClientRequest {
+    const payload = {
+      newToken: newToken,
+      thanksCode: thanksCode !== undefined ? thanksCode : false
+    };
+
+    return { method: "put", url: this.generateUserIDURL(), payload: payload };
+  }
+
+  public deleteUser(): ClientRequest {
+    return { method: "delete", url: this.generateUserIDURL() };
+  }
+
+  // profile API requests
+  public getProfile(): ClientRequest {
+    return { method: "get", url: this.generateProfilePageURL() };
+  }
+
+  public updateProfile(profile: ProfileResponse): ClientRequest {
+    return { method: "put", url: this.generateProfileURL(), payload: profile };
+  }
+
+  // graph API requests
+  public createGraph(
+    graph: string | GraphDefinition,
+    graphName?: string,
+    unit?: string,
+    type?: string,
+    color?: string,
+    timezone?: string,
+    selfSufficient?: string,
+    isSecret?: boolean
+  ): ClientRequest {
+    const definition: GraphDefinition =
+      typeof graph === "string"
+        ? {
+            id: graph,
+            name: graphName as string,
+            unit: unit as string,
+            type: type as GraphType,
+            color: color as GraphColor,
+            timezone: timezone,
+            selfSufficient: selfSufficient as SelfSufficient | undefined,
+            isSecret: isSecret
+          }
+        : graph;
+
+    validateGraphDefinition_(definition, false);
+
+    const payload: { [key: string]: string | boolean } = {};
+    const source: { [key: string]: string | boolean | undefined } = {
+      ...definition
+    };
+
+    for (let key in source) {
+      const value = source[key];
+
+      if (value !== undefined) {
+        payload[key] = value;
+      }
+    }
+
+    if (payload["isSecret"] === undefined) {
+      payload["isSecret"] = false;
+    }
+
+    return {
+      method: "post",
+      url: this.generateGraphsURL(),
+      payload: payload,
+      graphID: definition.id
+    };
+  }
+
+  public getGraph(): ClientRequest {
+    return { method: "get", url: this.generateGraphsURL(), endpoint: "graphs" };
+  }
+
+  public getSvg(graphID: string, options: SvgOptions): ClientRequest {
+    return {
+      method: "get",
+      url: this.generateSvgURL(graphID, options),
+      endpoint: "svg",
+      graphID: graphID
+    };
+  }
+
+  public generateSvgURL(graphID: string, options: SvgOptions): string {
+    return this.buildQuery(this.generateGraphIDURL(graphID), {
+      date: options.date,
+      mode: options.mode,
+      appearance: options.appearance,
+      lessThan: options.lessThan,
+      greaterThan: options.greaterThan
+    });
+  }
+
+  public updateGraph(graphID: string, update: GraphUpdate): ClientRequest {
+    validateGraphUpdate_(update);
+
+    const payload: { [key: string]: unknown } = {};
+    const source = update as { [key: string]: unknown };
+
+    GRAPH_UPDATE_FIELDS_.forEach(elem => {
+      if (source[elem] !== undefined) {
+        payload[elem] = source[elem];
+      }
+    });
+
+    return {
+      method: "put",
+      url: this.generateGraphIDURL(graphID),
+      payload: payload,
+      graphID: graphID
+    };
+  }
+
+  public deleteGraph(graphID: string): ClientRequest {
+    return {
+      method: "delete",
+      url: this.generateGraphIDURL(graphID),
+      graphID: graphID
+    };
+  }
+
+  public getGraphPixelsDate(
+    graphID: string,
+    fromDateStr?: string,
+    toDateStr?: string,
+    withBody?: boolean
+  ): ClientRequest {
+    const url = this.buildQuery(this.generateDetailURL(graphID, "pixels"), {
+      from:
+        fromDateStr !== undefined
+          ? validateDate_("fromDateStr", fromDateStr)
+          : undefined,
+      to:
+        toDateStr !== undefined
+          ? validateDate_("toDateStr", toDateStr)
+          : undefined,
+      withBody: withBody ? "true" : undefined
+    });
+
+    return { method: "get", url: url, endpoint: "pixels", graphID: graphID };
+  }
+
+  public getGraphStat(graphID: string): ClientRequest {
+    return {
+      method: "get",
+      url: this.generateDetailURL(graphID, "stats"),
+      endpoint: "stats",
+      graphID: graphID
+    };
+  }
+
+  public getGraphDefinition(graphID: string): ClientRequest {
+    return {
+      method: "get",
+      url: this.generateDetailURL(graphID, "graph-def"),
+      endpoint: "graphs",
+      graphID: graphID
+    };
+  }
+
+  public generateGraphDetailURL(graphID: string, mode?: string): string {
+    return this.buildQuery(this.generateGraphIDURL(graphID, ".html"), {
+      mode: mode
+    });
+  }
+
+  // pixel API requests
+  public createPixel(
+    graphID: string,
+    dateStr: string,
+    quantity: number,
+    optionalData?: object,
+    type?: string
+  ): ClientRequest {
+    const payload: { [key: string]: string } = {
+      date: validateDate_("dateStr", dateStr),
+      quantity: validateQuantity_("quantity", quantity, type)
+    };
+
+    if (optionalData !== undefined) {
+      payload["optionalData"] = validateOptionalData_(
+        "optionalData",
+        optionalData
+      );
+    }
+
+    return {
+      method: "post",
+      url: this.generateGraphIDURL(graphID),
+      payload: payload,
+      graphID: graphID
+    };
+  }
+
+  public getPixel(graphID: string, dateStr: string): ClientRequest {
+    return {
+      method: "get",
+      url: this.generatePixelURL(graphID, dateStr),
+      endpoint: "pixel",
+      graphID: graphID
+    };
+  }
+
+  public getLatestPixel(graphID: string): ClientRequest {
+    return {
+      method: "get",
+      url: this.generateDetailURL(graphID, "latest"),
+      endpoint: "pixel",
+      graphID: graphID
+    };
+  }
+
+  public getTodayPixel(graphID: string, returnEmpty?: boolean): ClientRequest {
+    const url = this.buildQuery(this.generateDetailURL(graphID, "today"), {
+      returnEmpty: returnEmpty ? "true" : undefined
+    });
+
+    return { method: "get", url: url, endpoint: "pixel", graphID: graphID };
+  }
+
+  public updatePixel(
+    graphID: string,
+    dateStr: string,
+    quantity: number,
+    optionalData?: object,
+    type?: string
+  ): ClientRequest {
+    const payload: { [key: string]: string } = {
+      quantity: validateQuantity_("quantity", quantity, type)
+    };
+
+    if (optionalData !== undefined) {
+      payload["optionalData"] = validateOptionalData_(
+        "optionalData",
+        optionalData
+      );
+    }
+
+    return {
+      method: "put",
+      url: this.generatePixelURL(graphID, dateStr),
+      payload: payload,
+      graphID: graphID
+    };
+  }
+
+  public createPixels(
+    graphID: string,
+    pixels: PixelInput[],
+    type?: string
+  ): ClientRequest {
+    const payload = pixels.map((pixel, index) => {
+      const name = "pixels[" + index + "]";
+      const item: { [key: string]: string } = {
+        date: validateDate_(name + ".date", pixel.date),
+        quantity: validateQuantity_(name + ".quantity", pixel.quantity, type)
+      };
+
+      if (pixel.optionalData !== undefined) {
+        item["optionalData"] = validateOptionalData_(
+          name + ".optionalData",
+          pixel.optionalData
+        );
+      }
+
+      return item;
+    });
+
+    return {
+      method: "post",
+      url: this.generateDetailURL(graphID, "pixels"),
+      payload: payload,
+      graphID: graphID
+    };
+  }
+
+  public addPixel(
+    graphID: string,
+    quantity: number,
+    type?: string
+  ): ClientRequest {
+    return {
+      method: "put",
+      url: this.generateDetailURL(graphID, "add"),
+      payload: { quantity: validateQuantity_("quantity", quantity, type) },
+      graphID: graphID
+    };
+  }
+
+  public subtractPixel(
+    graphID: string,
+    quantity: number,
+    type?: string
+  ): ClientRequest {
+    return {
+      method: "put",
+      url: this.generateDetailURL(graphID, "subtract"),
+      payload: { quantity: validateQuantity_("quantity", quantity, type) },
+      graphID: graphID
+    };
+  }
+
+  public stopwatch(graphID: string): ClientRequest {
+    return {
+      method: "post",
+      url: this.generateDetailURL(graphID, "stopwatch"),
+      graphID: graphID
+    };
+  }
+
+  public incPixel(graphID: string): ClientRequest {
+    return {
+      method: "put",
+      url: this.generateDetailURL(graphID, "increment"),
+      graphID: graphID
+    };
+  }
+
+  public decPixel(graphID: string): ClientRequest {
+    return {
+      method: "put",
+      url: this.generateDetailURL(graphID, "decrement"),
+      graphID: graphID
+    };
+  }
+
+  public deletePixel(graphID: string, dateStr: string): ClientRequest {
+    return {
+      method: "delete",
+      url: this.generatePixelURL(graphID, dateStr),
+      graphID: graphID
+    };
+  }
+
+  // webhook API requests
+  public createWebhook(
+    graphID: string,
+    webhookType: WebhookType,
+    quantity?: number
+  ): ClientRequest {
+    validateWebhook_(webhookType, quantity);
+
+    const payload: { [key: string]: string } = {
+      graphID: validatePathSegment_("graphID", graphID, ID_PATTERN_),
+      type: webhookType
+    };
+
+    if (quantity !== undefined) {
+      payload["quantity"] = validateQuantity_("quantity", quantity);
+    }
+
+    return { method: "post", url: this.generateWebhookURL(), payload: payload };
+  }
+
+  public getWebhook(): ClientRequest {
+    return { method: "get", url: this.generateWebhookURL() };
+  }
+
+  public invokeWebhook(webhookHash: string): ClientRequest {
+    return { method: "post", url: this.generateWebhookDetailURL(webhookHash) };
+  }
+
+  public deleteWebhook(webhookHash: string): ClientRequest {
+    return {
+      method: "delete",
+      url: this.generateWebhookDetailURL(webhookHash)
+    };
+  }
+
+  // channel API requests
+  public createChannel(channel: ChannelsItem): ClientRequest {
+    return { method: "post", url: this.generateChannelURL(), payload: channel };
+  }
+
+  public getChannels(): ClientRequest {
+    return { method: "get", url: this.generateChannelURL() };
+  }
+
+  public updateChannel(
+    channelID: string,
+    channel: Partial<ChannelsItem>
+  ): ClientRequest {
+    return {
+      method: "put",
+      url: this.generateChannelURL(channelID),
+      payload: channel
+    };
+  }
+
+  public deleteChannel(channelID: string): ClientRequest {
+    return { method: "delete", url: this.generateChannelURL(channelID) };
+  }
+
+  // notification API requests
+  public createNotification(
+    graphID: string,
+    notification: NotificationsItem
+  ): ClientRequest {
+    return {
+      method: "post",
+      url: this.generateNotificationURL(graphID),
+      payload: notification
+    };
+  }
+
+  public getNotifications(graphID: string): ClientRequest {
+    return {
+      method: "get",
+      url: this.generateNotificationURL(graphID)
+    };
+  }
+
+  public updateNotification(
+    graphID: string,
+    notificationID: string,
+    notification: Partial<NotificationsItem>
+  ): ClientRequest {
+    return {
+      method: "put",
+      url: this.generateNotificationURL(graphID, notificationID),
+      payload: notification
+    };
+  }
+
+  public deleteNotification(
+    graphID: string,
+    notificationID: string
+  ): ClientRequest {
+    return {
+      method: "delete",
+      url: this.generateNotificationURL(graphID, notificationID)
+    };
+  }
+
+  private generateUserURL(): string {
+    return this.generateURL([this.apiVersion, "users"]);
+  }
+
+  private generateUserIDURL(): string {
+    return this.generateURL([this.apiVersion, "users", this.user()]);
+  }
+
+  private generateProfileURL(): string {
+    return this.generateURL([this.apiVersion, "@" + this.user()]);
+  }
+
+  private generateProfilePageURL(): string {
+    return this.generateURL(["@" + this.user()]);
+  }
+
+  private generateGraphsURL(): string {
+    return this.generateURL([this.apiVersion, "users", this.user(), "graphs"]);
+  }
+
+  private generateGraphIDURL(graphID: string, suffix: string = ""): string {
+    return this.generateURL([
+      this.apiVersion,
+      "users",
+      this.user(),
+      "graphs",
+      validatePathSegment_("graphID", graphID, ID_PATTERN_) + suffix
+    ]);
+  }
+
+  private generateDetailURL(graphID: string, detailType: string): string {
+    return this.generateGraphIDURL(graphID) + "/" + detailType;
+  }
+
+  private generatePixelURL(graphID: string, dateStr: string): string {
+    return this.generateDetailURL(graphID, validateDate_("dateStr", dateStr));
+  }
+
+  private generateNotificationURL(
+    graphID: string,
+    notificationID?: string
+  ): string {
+    const url = this.generateDetailURL(graphID, "notifications");
+
+    return notificationID !== undefined
+      ? url +
+          "/" +
+          validatePathSegment_("notificationID", notificationID, ID_PATTERN_)
+      : url;
+  }
+
+  private generateWebhookURL(): string {
+    return this.generateURL([
+      this.apiVersion,
+      "users",
+      this.user(),
+      "webhooks"
+    ]);
+  }
+
+  private generateWebhookDetailURL(webhookHash: string): string {
+    return (
+      this.generateWebhookURL() +
+      "/" +
+      validatePathSegment_("webhookHash", webhookHash, WEBHOOK_HASH_PATTERN_)
+    );
+  }
+
+  private generateChannelURL(channelID?: string): string {
+    const url = this.generateURL([
+      this.apiVersion,
+      "users",
+      this.user(),
+      "channels"
+    ]);
+
+    return channelID !== undefined
+      ? url + "/" + validatePathSegment_("channelID", channelID, ID_PATTERN_)
+      : url;
+  }
+
+  private user(): string {
+    return validatePathSegment_("username", this.username, USERNAME_PATTERN_);
+  }
+
+  private generateURL(segments: string[]): string {
+    // "@" is allowed in path segment (RFC 3986) and used by profile URL
+    const path = segments.map(segment =>
+      encodeURIComponent(segment).replace(/%40/g, "@")
+    );
+
+    return this.baseURL + "/" + path.join("/");
+  }
+
+  private buildQuery(
+    url: string,
+    values: { [key: string]: string | number | undefined }
+  ): string {
+    let params: Array<string> = [];
+
+    for (let key in values) {
+      if (values[key] != undefined) {
+        params.push(
+          encodeURIComponent(key) +
+            "=" +
+            encodeURIComponent(String(values[key]))
+        );
+      }
+    }
+
+    if (params.length == 0) {
+      return url;
+    }
+
+    return url + "?" + params.join("&");
+  }
+}
@@ -5,17 +5,86 @@
  * @see {@link https://github.com/noissefnoc/gas-library-pixela}
  */
 
-interface BasicResponse {
+interface ResponseMetadata {
+  // HTTP status code
+  status?: number;
+  // request URL (token redacted)
+  url?: string;
+  // number of attempts including retries (0 when cached)
+  attempts?: number;
+  // true when response is from cache
+  cached?: boolean;
+}
+
+interface BasicResponse extends ResponseMetadata {
   message: string;
   isSuccess: boolean;
+  error?: PixelaError;
+}
+
+/**
+ * failed response<br/>
+ * <p>
+ * returned instead of throwing PixelaError when throwOnError is false.
+ * </p>
+ */
+interface FailedResponse extends ResponseMetadata {
+  message: string;
+  isSuccess: false;
+  error: PixelaError;
+}
+
+// typed response of read API, or failed response (narrow by isSuccess)
+type PixelaResult<T> = (T & { isSuccess: true }) | FailedResponse;
+
+interface SvgResponse extends ResponseMetadata {
+  // SVG document
+  svg: string;
+}
+
+interface ProfilePageResponse extends ResponseMetadata {
+  // profile page HTML
+  html: string;
 }
 
-interface PixelResponse {
+interface PixelResponse<T = object> extends ResponseMetadata {
   quantity: string;
-  optionalData: string;
+  // parsed JSON of optionalData
+  optionalData?: T;
+}
+
+interface ProfileResponse {
+  displayName?: string;
+  gravatarIconEmail?: string;
+  title?: string;
+  timezone?: string;
+  aboutURL?: string;
+  contributeURLs?: string[];
+  pinnedGraphID?: string;
+  githubUsername?: string;
+  twitterUsername?: string;
+}
+
+type SvgMode = "short" | "badge" | "line";
+
+interface SvgOptions {
+  // pixel date (yyyyMMdd) of graph end (default: today)
+  date?: string;
+  // short: 90 days / badge: latest pixel badge / line: line chart
+  mode?: SvgMode;
+  appearance?: "dark";
+  // highlight pixels whose quantity is less/greater than value
+  lessThan?: number;
+  greaterThan?: number;
+}
+
+interface PixelInput {
+  date: string;
+  quantity: number;
+  optionalData?: object;
 }
 
-interface GraphResponse {
+interface GraphResponse extends ResponseMetadata {
   graphs: GraphsItem[];
 }
 
@@ -30,21 +99,103 @@ interface GraphsItem {
   selfSufficient: string;
 }
 
-interface GraphPixelsResponse {
+type GraphType = "int" | "float";
+
+type GraphColor = "shibafu" | "momiji" | "sora" | "ichou" | "ajisai" | "kuro";
+
+type SelfSufficient = "increment" | "decrement" | "none";
+
+interface GraphDefinition {
+  id: string;
+  name: string;
+  unit: string;
+  type: GraphType;
+  color: GraphColor;
+  // IANA timezone (default: UTC)
+  timezone?: string;
+  // default: none
+  selfSufficient?: SelfSufficient;
+  // hide on graph list (default: false)
+  isSecret?: boolean;
+  // show optionalData on graph page (default: false)
+  publishOptionalData?: boolean;
+}
+
+interface GraphUpdate {
+  name?: string;
+  unit?: string;
+  color?: GraphColor;
+  timezone?: string;
+  // up to 5 https URLs purged on pixel update
+  purgeCacheURLs?: string[];
+  selfSufficient?: SelfSufficient;
+  isSecret?: boolean;
+  publishOptionalData?: boolean;
+}
+
+interface UpdateGraphOptions {
+  // fetch current definition, send only changed elements and return diff
+  diff?: boolean;
+}
+
+// before/after of changed graph elements
+interface GraphDiff {
+  [element: string]: { before: unknown; after: unknown };
+}
+
+interface GraphUpdateResponse extends BasicResponse {
+  // changed elements (only with diff option)
+  diff?: GraphDiff;
+}
+
+interface GraphDefinitionResponse extends GraphsItem, ResponseMetadata {
+  isSecret?: boolean;
+  publishOptionalData?: boolean;
+}
+
+interface LatestPixelResponse<T = object> extends PixelResponse<T> {
+  date: string;
+}
+
+interface GraphPixelsResponse extends ResponseMetadata {
   pixels: string[];
 }
 
-interface WebhookResponse {
+interface GraphPixelsItem<T = object> {
+  date: string;
+  quantity: string;
+  // parsed JSON of optionalData
+  optionalData?: T;
+}
+
+interface GraphPixelsWithBodyResponse<T = object> extends ResponseMetadata {
+  pixels: GraphPixelsItem<T>[];
+}
+
+interface WebhookResponse extends ResponseMetadata {
   webhooks: WebhooksItem[];
 }
 
+type WebhookType = "increment" | "decrement" | "add" | "subtract" | "stopwatch";
+
 interface WebhooksItem {
   webhookHash: string;
   graphID: string;
-  type: string;
+  type: WebhookType;
+  // quantity of add/subtract webhook
+  quantity?: string;
+}
+
+interface CreateWebhookResponse extends BasicResponse {
+  webhookHash?: string;
+}
+
+interface EnsureWebhookResponse extends CreateWebhookResponse {
+  // false when webhook already exists
+  created: boolean;
 }
 
-interface GraphStatResponse {
+interface GraphStatResponse extends ResponseMetadata {
   totalPixelsCount: number;
   maxQuantity: number;
   minQuantity: number;
@@ -52,3 +203,50 @@ interface GraphStatResponse {
   avgQuantity: number;
   todaysQuantity: number;
 }
+
+interface ChannelsItem {
+  id: string;
+  name: string;
+  type: string;
+  detail: SlackChannelDetail;
+}
+
+interface SlackChannelDetail {
+  url: string;
+  userName: string;
+  channelName: string;
+}
+
+interface ChannelResponse extends ResponseMetadata {
+  channels: ChannelsItem[];
+}
+
+interface NotificationsItem {
+  id: string;
+  name: string;
+  target: string;
+  condition: string;
+  threshold: string;
+  remindBy?: string;
+  channelID: string;
+}
+
+interface NotificationResponse extends ResponseMetadata {
+  notifications: NotificationsItem[];
+}
+
+type StopwatchMode = "server" | "local";
+
+interface StopwatchStatus {
+  graphID: string;
+  running: boolean;
+  mode: StopwatchMode | null;
+  startedAt: string | null;
+  elapsedMinutes: number | null;
+}
+
+interface StopwatchResponse extends BasicResponse {
+  elapsedMinutes: number;
+  // quantity added to today's pixel (local mode only)
+  quantity?: number;
+}
@@ -0,0 +1,139 @@
+/**
+ * @file pixe.la API retry policy
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+/**
+ * retry policy for Client_<br/>
+ * <p>
+ * pixe.la rejects a share of requests from non-supporter accounts
+ * (https://docs.pixe.la/). Client_ retries those requests with
+ * exponential backoff while execution time budget remains.
+ * </p>
+ */
+interface RetryPolicy {
+  // total number of attempts including the first request
+  maxAttempts: number;
+  // delay before the second attempt (milliseconds)
+  initialDelay: number;
+  // upper limit of delay (milliseconds)
+  maxDelay: number;
+  // backoff multiplier for each attempt
+  multiplier: number;
+  // randomize delay between 0 and calculated delay (full jitter)
+  jitter: boolean;
+  // HTTP status codes to retry
+  retryableStatusCodes: number[];
+  // HTTP status codes to retry only GET requests, because the failed
+  // request may have reached pixe.la (e.g. 502 from proxy)
+  retryableGetStatusCodes: number[];
+  // substrings of `message` in `isSuccess: false` response to retry
+  retryableMessages: string[];
+  // execution time budget from script start (milliseconds).
+  // measured from the first attempt outside Google Apps Script
+  executionTimeBudget: number;
+}
+
+// Apps Script evaluates global scope at the beginning of each execution
+const SCRIPT_STARTED_AT_: number = Date.now();
+
+const DEFAULT_RETRY_POLICY_: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelay: 500,
+  maxDelay: 8000,
+  multiplier: 2,
+  jitter: true,
+  retryableStatusCodes: [429, 503],
+  retryableGetStatusCodes: [500, 502, 504],
+  retryableMessages: ["Please retry this request."],
+  // 6 minutes execution limit minus 30 seconds margin
+  executionTimeBudget: 330000
+};
+
+/**
+ * retry state of one request<br/>
+ * <p>
+ * internal use of Client_ class
+ * </p>
+ */
+class Retry_ {
+  private policy: RetryPolicy;
+  private startedAt: number;
+
+  constructor(policy: RetryPolicy) {
+    this.policy = policy;
+    // execution of other runtimes has no time limit from script start
+    this.startedAt =
+      typeof UrlFetchApp !== "undefined" ? SCRIPT_STARTED_AT_ : Date.now();
+  }
+
+  /**
+   * judge response is retryable<br />
+   * <p>
+   * rejected requests ("Please retry this request.") and 429/503 are
+   * retried regardless of method. other server errors are retried
+   * only for GET request, so that non-idempotent request
+   * (e.g. add-pixel) is not applied twice.
+   * </p>
+   * @param {HttpMethod} method request method
+   * @param {TransportResponse} response transport response
+   * @return {boolean} retryable or not
+   */
+  public isRetryable(method: HttpMethod, response: TransportResponse): boolean {
+    if (
+      this.policy.retryableStatusCodes.indexOf(response.status) !== -1 ||
+      (method === "get" &&
+        this.policy.retryableGetStatusCodes.indexOf(response.status) !== -1)
+    ) {
+      return true;
+    }
+
+    let message: string;
+
+    try {
+      const body = JSON.parse(response.body);
+
+      if (body === null || body.isSuccess !== false) {
+        return false;
+      }
+
+      message = String(body.message);
+    } catch (e) {
+      return false;
+    }
+
+    return this.policy.retryableMessages.some(
+      retryable => message.indexOf(retryable) !== -1
+    );
+  }
+
+  /**
+   * calculate delay before next attempt<br />
+   * @param {number} attempts number of attempts already made
+   * @return {number} delay (milliseconds) or -1 when retry is not allowed
+   */
+  public nextDelay(attempts: number): number {
+    if (attempts >= this.policy.maxAttempts) {
+      return -1;
+    }
+
+    let delay = Math.min(
+      this.policy.maxDelay,
+      this.policy.initialDelay * Math.pow(this.policy.multiplier, attempts - 1)
+    );
+
+    if (this.policy.jitter) {
+      delay = Math.floor(Math.random() * delay);
+    }
+
+    const deadline = this.startedAt + this.policy.executionTimeBudget;
+
+    if (Date.now() + delay >= deadline) {
+      return -1;
+    }
+
+    return delay;
+  }
+}
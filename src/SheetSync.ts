@@ -0,0 +1,539 @@
+/**
+ * @file pixe.la Google Sheets sync
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+/**
+ * sheet used by sync and export<br/>
+ * <p>
+ * subset of GoogleAppsScript.Spreadsheet.Sheet, so that fake sheet
+ * can be used outside Google Apps Script.
+ * </p>
+ */
+interface SheetLike {
+  getLastRow(): number;
+  getLastColumn(): number;
+  getRange(
+    row: number,
+    column: number,
+    numRows: number,
+    numColumns: number
+  ): SheetRangeLike;
+  // spreadsheet of sheet (UTC is used as timezone when not available)
+  getParent?(): { getSpreadsheetTimeZone(): string };
+}
+
+interface SheetRangeLike {
+  getValues(): SheetCell[][];
+  setValues(values: SheetCell[][]): unknown;
+}
+
+// value of cell (empty cell is "")
+type SheetCell = string | number | boolean | Date;
+
+// column number (1-based) or header name
+type SheetColumn = number | string;
+
+type SheetSyncAggregation = "sum" | "max" | "last";
+
+interface SheetSyncOptions {
+  graphID: string;
+  dateColumn: SheetColumn;
+  quantityColumn: SheetColumn;
+  // optionalData field name to column
+  optionalDataColumns?: { [field: string]: SheetColumn };
+  // aggregation of rows of the same date (default: last)
+  aggregation?: SheetSyncAggregation;
+  // number of header rows (default: 1)
+  headerRows?: number;
+  // columns to write sync status ("synced"/"unchanged"/"error") and error message
+  statusColumn?: SheetColumn;
+  errorColumn?: SheetColumn;
+  // timezone of date cells (default: spreadsheet timezone or UTC)
+  timezone?: string;
+}
+
+interface SheetSyncResult {
+  // number of dates pushed, unchanged and failed
+  pushed: number;
+  unchanged: number;
+  failed: number;
+  // number of rows which can't be read (invalid date or quantity)
+  invalidRows: number;
+}
+
+interface SheetSyncPixel {
+  date: string;
+  quantity: number;
+  optionalData?: { [field: string]: string | number | boolean };
+  rows: number[];
+}
+
+const SHEET_SYNC_AGGREGATIONS_: string[] = ["sum", "max", "last"];
+// fingerprints (date and hash, 16 characters each) in one property
+// (value of PropertiesService is limited to 9KB)
+const SHEET_SYNC_FINGERPRINTS_PER_KEY_: number = 500;
+
+/**
+ * timezone of spreadsheet of sheet<br />
+ * @param {SheetLike} sheet sheet
+ * @return {string} spreadsheet timezone (UTC for fake sheet)
+ */
+function spreadsheetTimezone_(sheet: SheetLike): string {
+  return sheet.getParent !== undefined
+    ? sheet.getParent().getSpreadsheetTimeZone()
+    : "UTC";
+}
+
+/**
+ * in-memory fake sheet<br/>
+ * <p>
+ * implements SheetLike with array of rows, so that syncSheet and
+ * exportPixelsToSheet can run outside Google Apps Script. for unit tests.
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var sheet = new FakeSheet_([["date", "quantity"], ["20200101", 1]]);
+ * pixela.syncSheet(sheet, { graphID: graphID, dateColumn: 1, quantityColumn: 2 });
+ * Logger.log(sheet.values);
+ * </pre>
+ */
+class FakeSheet_ implements SheetLike {
+  public values: SheetCell[][];
+  public getParent?: () => { getSpreadsheetTimeZone(): string };
+
+  /**
+   * @param {SheetCell[][]} values rows of sheet
+   * @param {string} timezone optional: spreadsheet timezone (default: none, UTC is used)
+   */
+  constructor(values: SheetCell[][], timezone?: string) {
+    this.values = values.map(row => row.slice());
+
+    if (timezone !== undefined) {
+      this.getParent = () => ({
+        getSpreadsheetTimeZone: () => timezone
+      });
+    }
+  }
+
+  public getLastRow(): number {
+    return this.values.length;
+  }
+
+  public getLastColumn(): number {
+    return Math.max(0, ...this.values.map(row => row.length));
+  }
+
+  public getRange(
+    row: number,
+    column: number,
+    numRows: number,
+    numColumns: number
+  ): SheetRangeLike {
+    return {
+      getValues: () => {
+        const values: SheetCell[][] = [];
+
+        for (let i = 0; i < numRows; i++) {
+          const cells = this.values[row - 1 + i] || [];
+          values.push([]);
+
+          for (let j = 0; j < numColumns; j++) {
+            const cell = cells[column - 1 + j];
+            values[i].push(cell !== undefined ? cell : "");
+          }
+        }
+
+        return values;
+      },
+      setValues: (values: SheetCell[][]) => {
+        values.forEach((cells, i) => {
+          const index = row - 1 + i;
+
+          while (this.values.length <= index) {
+            this.values.push([]);
+          }
+
+          cells.forEach((cell, j) => {
+            const target = this.values[index];
+
+            while (target.length < column - 1 + j) {
+              target.push("");
+            }
+
+            target[column - 1 + j] = cell;
+          });
+        });
+      }
+    };
+  }
+}
+
+/**
+ * Google Sheets sync<br/>
+ * <p>
+ * push rows of sheet to graph. rows of the same date are aggregated,
+ * and pixels whose fingerprint is unchanged since last push are skipped,
+ * so that sync can run repeatedly from trigger.
+ * internal use of Pixela_ class
+ * </p>
+ */
+class SheetSync_ {
+  private pixela: Pixela_;
+  private store: KeyValueStore;
+  private username: string;
+
+  constructor(pixela: Pixela_, store: KeyValueStore, username: string) {
+    this.pixela = pixela;
+    this.store = store;
+    this.username = username;
+  }
+
+  public sync(sheet: SheetLike, options: SheetSyncOptions): SheetSyncResult {
+    const headerRows =
+      options.headerRows !== undefined ? options.headerRows : 1;
+    const lastRow = sheet.getLastRow();
+    const lastColumn = sheet.getLastColumn();
+    const header =
+      headerRows > 0 && lastColumn > 0
+        ? sheet.getRange(headerRows, 1, 1, lastColumn).getValues()[0]
+        : [];
+    const columns = this.resolveColumns(options, header, lastColumn);
+    const numRows = Math.max(0, lastRow - headerRows);
+    const values =
+      numRows > 0
+        ? sheet.getRange(headerRows + 1, 1, numRows, lastColumn).getValues()
+        : [];
+    const timezone = this.timezone(sheet, options);
+    const statuses: string[] = values.map(() => "");
+    const errors: string[] = values.map(() => "");
+    const pixels: { [date: string]: SheetSyncPixel } = {};
+    const result: SheetSyncResult = {
+      pushed: 0,
+      unchanged: 0,
+      failed: 0,
+      invalidRows: 0
+    };
+
+    values.forEach((row, index) => {
+      if (row.every(cell => cell === "" || cell === null)) {
+        return;
+      }
+
+      try {
+        const date = parsePixelDate_(row[columns.date - 1], timezone);
+        const quantity = this.toQuantity(row[columns.quantity - 1]);
+        const pixel = pixels[date];
+
+        if (pixel === undefined) {
+          pixels[date] = { date: date, quantity: quantity, rows: [index] };
+        } else {
+          pixel.quantity = this.aggregate(
+            options.aggregation,
+            pixel.quantity,
+            quantity
+          );
+          pixel.rows.push(index);
+
+          // last row replaces optionalData of previous rows as well
+          if (this.isLast(options.aggregation)) {
+            delete pixel.optionalData;
+          }
+        }
+
+        const optionalData = this.toOptionalData(row, columns.optionalData);
+
+        if (optionalData !== undefined) {
+          pixels[date].optionalData = optionalData;
+        }
+      } catch (e) {
+        statuses[index] = "error";
+        errors[index] = (e as Error).message;
+        result.invalidRows++;
+      }
+    });
+
+    const batch = this.pixela.batch();
+    const queued: SheetSyncPixel[] = [];
+    const fingerprints = this.readFingerprints(options.graphID);
+
+    Object.keys(pixels).forEach(date => {
+      const pixel = pixels[date];
+
+      if (fingerprints[date] === this.fingerprint(pixel)) {
+        pixel.rows.forEach(row => (statuses[row] = "unchanged"));
+        result.unchanged++;
+        return;
+      }
+
+      try {
+        batch.updatePixel(
+          options.graphID,
+          date,
+          pixel.quantity,
+          pixel.optionalData
+        );
+        queued.push(pixel);
+      } catch (e) {
+        this.fail(pixel, (e as Error).message, statuses, errors);
+        result.failed++;
+      }
+    });
+
+    const pushed: { [date: string]: string } = {};
+
+    batch.execute().forEach((response, index) => {
+      const pixel = queued[index];
+
+      if (response.isSuccess) {
+        pushed[pixel.date] = this.fingerprint(pixel);
+        pixel.rows.forEach(row => (statuses[row] = "synced"));
+        result.pushed++;
+      } else {
+        this.fail(pixel, response.message, statuses, errors);
+        result.failed++;
+      }
+    });
+
+    if (result.pushed > 0) {
+      // re-read fingerprints under lock not to lose ones written by
+      // concurrent sync of the same graph meanwhile
+      withScriptLock_(() =>
+        this.writeFingerprints(options.graphID, {
+          ...this.readFingerprints(options.graphID),
+          ...pushed
+        })
+      );
+    }
+
+    if (numRows > 0) {
+      this.writeColumn(sheet, headerRows, columns.status, statuses);
+      this.writeColumn(sheet, headerRows, columns.error, errors);
+    }
+
+    return result;
+  }
+
+  private resolveColumns(
+    options: SheetSyncOptions,
+    header: SheetCell[],
+    lastColumn: number
+  ): {
+    date: number;
+    quantity: number;
+    optionalData: { [field: string]: number };
+    status?: number;
+    error?: number;
+  } {
+    const problems: string[] = [];
+    // status and error columns may be out of sheet (new columns)
+    const resolve = (
+      name: string,
+      column?: SheetColumn,
+      writable: boolean = false
+    ): number => {
+      if (column === undefined) {
+        return 0;
+      }
+
+      const index =
+        typeof column === "number" ? column : header.indexOf(column) + 1;
+
+      if (!(index >= 1 && index % 1 === 0)) {
+        problems.push(name + " column not found: " + column);
+      } else if (index > lastColumn && !writable) {
+        problems.push(name + " column is out of sheet: " + column);
+      }
+
+      return index;
+    };
+
+    const optionalData: { [field: string]: number } = {};
+    const optionalDataColumns =
+      options.optionalDataColumns !== undefined
+        ? options.optionalDataColumns
+        : {};
+
+    for (let field in optionalDataColumns) {
+      optionalData[field] = resolve(field, optionalDataColumns[field]);
+    }
+
+    const columns = {
+      date: resolve("date", options.dateColumn),
+      quantity: resolve("quantity", options.quantityColumn),
+      optionalData: optionalData,
+      status: resolve("status", options.statusColumn, true) || undefined,
+      error: resolve("error", options.errorColumn, true) || undefined
+    };
+
+    if (
+      options.aggregation !== undefined &&
+      SHEET_SYNC_AGGREGATIONS_.indexOf(options.aggregation) === -1
+    ) {
+      problems.push(
+        "aggregation must be one of " +
+          SHEET_SYNC_AGGREGATIONS_.join("/") +
+          ": " +
+          options.aggregation
+      );
+    }
+
+    throwIfInvalid_("sheet sync options", problems);
+
+    return columns;
+  }
+
+  private timezone(sheet: SheetLike, options: SheetSyncOptions): string {
+    if (options.timezone !== undefined) {
+      return options.timezone;
+    }
+
+    return spreadsheetTimezone_(sheet);
+  }
+
+  private toQuantity(value: SheetCell): number {
+    const quantity =
+      typeof value === "number"
+        ? value
+        : typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : NaN;
+
+    validateQuantity_("quantity", quantity);
+
+    return quantity;
+  }
+
+  private toOptionalData(
+    row: SheetCell[],
+    columns: { [field: string]: number }
+  ): { [field: string]: string | number | boolean } | undefined {
+    const fields = Object.keys(columns);
+    const optionalData: { [field: string]: string | number | boolean } = {};
+
+    fields.forEach(field => {
+      const value = row[columns[field] - 1];
+
+      if (value !== "" && value !== null && value !== undefined) {
+        optionalData[field] =
+          value instanceof Date ? value.toISOString() : value;
+      }
+    });
+
+    return Object.keys(optionalData).length > 0 ? optionalData : undefined;
+  }
+
+  private aggregate(
+    aggregation: SheetSyncAggregation | undefined,
+    current: number,
+    value: number
+  ): number {
+    switch (aggregation) {
+      case "sum":
+        // avoid float error (e.g. 0.1 + 0.2)
+        return Math.round((current + value) * 1e10) / 1e10;
+      case "max":
+        return Math.max(current, value);
+      default:
+        return value;
+    }
+  }
+
+  private isLast(aggregation: SheetSyncAggregation | undefined): boolean {
+    return aggregation === undefined || aggregation === "last";
+  }
+
+  private fail(
+    pixel: SheetSyncPixel,
+    message: string,
+    statuses: string[],
+    errors: string[]
+  ): void {
+    pixel.rows.forEach(row => {
+      statuses[row] = "error";
+      errors[row] = message;
+    });
+  }
+
+  private writeColumn(
+    sheet: SheetLike,
+    headerRows: number,
+    column: number | undefined,
+    values: string[]
+  ): void {
+    if (column === undefined) {
+      return;
+    }
+
+    sheet
+      .getRange(headerRows + 1, column, values.length, 1)
+      .setValues(values.map(value => [value]));
+  }
+
+  private fingerprint(pixel: SheetSyncPixel): string {
+    const value = JSON.stringify([pixel.quantity, pixel.optionalData]);
+    // FNV-1a 32bit hash
+    let hash = 0x811c9dc5;
+
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+
+    return ("0000000" + hash.toString(16)).slice(-8);
+  }
+
+  /**
+   * read fingerprints of pushed pixels<br />
+   * <p>
+   * fingerprints of graph are kept in a few properties
+   * (number of chunks and chunks of "yyyyMMdd" + hash),
+   * instead of one property per date.
+   * </p>
+   */
+  private readFingerprints(graphID: string): { [date: string]: string } {
+    const fingerprints: { [date: string]: string } = {};
+    const chunks = Number(this.store.get(this.key(graphID))) || 0;
+
+    for (let i = 0; i < chunks; i++) {
+      const chunk = this.store.get(this.key(graphID) + "." + i) || "";
+
+      for (let j = 0; j + 16 <= chunk.length; j += 16) {
+        fingerprints[chunk.slice(j, j + 8)] = chunk.slice(j + 8, j + 16);
+      }
+    }
+
+    return fingerprints;
+  }
+
+  private writeFingerprints(
+    graphID: string,
+    fingerprints: { [date: string]: string }
+  ): void {
+    const records = Object.keys(fingerprints)
+      .sort()
+      .map(date => date + fingerprints[date]);
+    const previous = Number(this.store.get(this.key(graphID))) || 0;
+    let chunks = 0;
+
+    for (let i = 0; i < records.length; i += SHEET_SYNC_FINGERPRINTS_PER_KEY_) {
+      this.store.put(
+        this.key(graphID) + "." + chunks,
+        records.slice(i, i + SHEET_SYNC_FINGERPRINTS_PER_KEY_).join("")
+      );
+      chunks++;
+    }
+
+    for (let i = chunks; i < previous; i++) {
+      this.store.remove(this.key(graphID) + "." + i);
+    }
+
+    this.store.put(this.key(graphID), String(chunks));
+  }
+
+  private key(graphID: string): string {
+    return "pixela.sheetSync." + this.username + "." + graphID;
+  }
+}
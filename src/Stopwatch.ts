@@ -0,0 +1,178 @@
+/**
+ * @file pixe.la stopwatch
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+interface StopwatchState {
+  startedAt: number;
+  mode: StopwatchMode;
+  // graph unit per minute
+  unitsPerMinute: number;
+  type: string;
+}
+
+// graph units which local stopwatch can convert from minutes
+const STOPWATCH_UNITS_: { [unit: string]: number } = {
+  s: 60,
+  sec: 60,
+  secs: 60,
+  second: 60,
+  seconds: 60,
+  min: 1,
+  mins: 1,
+  minute: 1,
+  minutes: 1,
+  h: 1 / 60,
+  hr: 1 / 60,
+  hrs: 1 / 60,
+  hour: 1 / 60,
+  hours: 1 / 60
+};
+
+/**
+ * stopwatch<br/>
+ * <p>
+ * start and stop time tracking of graph. graphs whose unit is minutes use
+ * pixe.la stopwatch API, and graphs of other time units keep start time
+ * in store and add elapsed time to today's pixel by add-pixel API.
+ * internal use of Pixela_ class
+ * </p>
+ */
+class Stopwatch_ {
+  private pixela: Pixela_;
+  private store: KeyValueStore;
+  private username: string;
+
+  constructor(pixela: Pixela_, store: KeyValueStore, username: string) {
+    this.pixela = pixela;
+    this.store = store;
+    this.username = username;
+  }
+
+  public start(graphID: string): BasicResponse {
+    if (this.read(graphID) !== null) {
+      throw new PixelaValidationError(
+        "stopwatch is already running: " + graphID,
+        0,
+        "",
+        0
+      );
+    }
+
+    const definition = this.pixela.getGraphDefinition(graphID);
+
+    if (!definition.isSuccess) {
+      return definition;
+    }
+
+    const unitsPerMinute =
+      STOPWATCH_UNITS_[String(definition.unit).toLowerCase()];
+
+    if (unitsPerMinute === undefined) {
+      throw new PixelaValidationError(
+        "graph unit must be time unit (seconds/minutes/hours): " +
+          definition.unit,
+        0,
+        "",
+        0
+      );
+    }
+
+    const state: StopwatchState = {
+      startedAt: Date.now(),
+      mode: unitsPerMinute === 1 ? "server" : "local",
+      unitsPerMinute: unitsPerMinute,
+      type: definition.type
+    };
+
+    let response: BasicResponse = { message: "Success.", isSuccess: true };
+
+    if (state.mode === "server") {
+      response = this.pixela.toggleStopwatch(graphID);
+
+      if (!response.isSuccess) {
+        return response;
+      }
+    }
+
+    this.store.put(this.key(graphID), JSON.stringify(state));
+
+    return response;
+  }
+
+  public stop(graphID: string): StopwatchResponse {
+    const state = this.read(graphID);
+
+    if (state === null) {
+      throw new PixelaValidationError(
+        "stopwatch is not running: " + graphID,
+        0,
+        "",
+        0
+      );
+    }
+
+    const elapsedMinutes = (Date.now() - state.startedAt) / 60000;
+    let quantity: number | undefined;
+    let response: BasicResponse;
+
+    if (state.mode === "server") {
+      response = this.pixela.toggleStopwatch(graphID);
+    } else {
+      quantity = elapsedMinutes * state.unitsPerMinute;
+      quantity =
+        state.type === "int"
+          ? Math.round(quantity)
+          : Math.round(quantity * 100) / 100;
+      response = this.pixela.addPixel(graphID, quantity);
+    }
+
+    if (response.isSuccess) {
+      this.store.remove(this.key(graphID));
+    }
+
+    return { ...response, elapsedMinutes: elapsedMinutes, quantity: quantity };
+  }
+
+  public status(graphID: string): StopwatchStatus {
+    const state = this.read(graphID);
+
+    if (state === null) {
+      return {
+        graphID: graphID,
+        running: false,
+        mode: null,
+        startedAt: null,
+        elapsedMinutes: null
+      };
+    }
+
+    return {
+      graphID: graphID,
+      running: true,
+      mode: state.mode,
+      startedAt: new Date(state.startedAt).toISOString(),
+      elapsedMinutes: (Date.now() - state.startedAt) / 60000
+    };
+  }
+
+  private read(graphID: string): StopwatchState | null {
+    const value = this.store.get(this.key(graphID));
+
+    if (value === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value) as StopwatchState;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private key(graphID: string): string {
+    return "pixela.stopwatch." + this.username + "." + graphID;
+  }
+}
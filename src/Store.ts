@@ -0,0 +1,157 @@
+/**
+ * @file pixe.la API client key value stores
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+/**
+ * key value store<br/>
+ * <p>
+ * keeps client state (quota counters, stopwatch and so on)
+ * across executions (trigger runs).
+ * </p>
+ */
+interface KeyValueStore {
+  get(key: string): string | null;
+  put(key: string, value: string): void;
+  remove(key: string): void;
+}
+
+/**
+ * CacheService store (values expire in 60 seconds)<br/>
+ * <p>
+ * user cache by default, so that values are not shared with other users
+ * of the script which includes this library.
+ * </p>
+ */
+class CacheStore_ implements KeyValueStore {
+  private cache: GoogleAppsScript.Cache.Cache;
+
+  constructor(cache?: GoogleAppsScript.Cache.Cache) {
+    this.cache = cache !== undefined ? cache : CacheService.getUserCache();
+  }
+
+  public get(key: string): string | null {
+    return this.cache.get(key);
+  }
+
+  public put(key: string, value: string): void {
+    this.cache.put(key, value, 60);
+  }
+
+  public remove(key: string): void {
+    this.cache.remove(key);
+  }
+}
+
+/**
+ * PropertiesService store<br/>
+ * <p>
+ * user properties by default, so that values are not shared with other users
+ * of the script which includes this library.
+ * </p>
+ */
+class PropertiesStore_ implements KeyValueStore {
+  private properties: GoogleAppsScript.Properties.Properties;
+
+  constructor(properties?: GoogleAppsScript.Properties.Properties) {
+    this.properties =
+      properties !== undefined
+        ? properties
+        : PropertiesService.getUserProperties();
+  }
+
+  public get(key: string): string | null {
+    return this.properties.getProperty(key);
+  }
+
+  public put(key: string, value: string): void {
+    this.properties.setProperty(key, value);
+  }
+
+  public remove(key: string): void {
+    this.properties.deleteProperty(key);
+  }
+}
+
+/**
+ * in-memory store (for Node.js and unit tests)<br/>
+ */
+class MemoryStore_ implements KeyValueStore {
+  private values: { [key: string]: string } = {};
+
+  public get(key: string): string | null {
+    return this.values[key] !== undefined ? this.values[key] : null;
+  }
+
+  public put(key: string, value: string): void {
+    this.values[key] = value;
+  }
+
+  public remove(key: string): void {
+    delete this.values[key];
+  }
+}
+
+/**
+ * create default persistent store<br />
+ * @return {KeyValueStore} PropertiesService user properties store on Google Apps Script, in-memory store on other runtimes
+ */
+function defaultStore_(): KeyValueStore {
+  return typeof PropertiesService !== "undefined"
+    ? new PropertiesStore_()
+    : new MemoryStore_();
+}
+
+/**
+ * run function under LockService user lock<br />
+ * <p>
+ * serializes read-modify-write of stored state between concurrent
+ * executions (e.g. triggers) of the same user.
+ * function runs without lock on other runtimes.
+ * </p>
+ * @param {function} fn function
+ * @return {T} return value of function
+ * @throws {Error} when lock is not acquired in 10 seconds
+ */
+function withUserLock_<T>(fn: () => T): T {
+  if (typeof LockService === "undefined") {
+    return fn();
+  }
+
+  const lock = LockService.getUserLock();
+  lock.waitLock(10000);
+
+  try {
+    return fn();
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+/**
+ * run function under LockService script lock<br />
+ * <p>
+ * serializes read-modify-write of state shared by all users of script
+ * (e.g. sync triggers of each editor).
+ * function runs without lock on other runtimes.
+ * </p>
+ * @param {function} fn function
+ * @return {T} return value of function
+ * @throws {Error} when lock is not acquired in 30 seconds
+ */
+function withScriptLock_<T>(fn: () => T): T {
+  if (typeof LockService === "undefined") {
+    return fn();
+  }
+
+  const lock = LockService.getScriptLock();
+  lock.waitLock(30000);
+
+  try {
+    return fn();
+  } finally {
+    lock.releaseLock();
+  }
+}
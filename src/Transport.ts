@@ -0,0 +1,225 @@
+/**
+ * @file pixe.la API HTTP transports
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+type HttpMethod = "get" | "post" | "put" | "delete";
+
+interface TransportRequest {
+  method: HttpMethod;
+  url: string;
+  headers: { [name: string]: string };
+  payload?: string;
+  // timeout (milliseconds), not supported by UrlFetchApp
+  timeout?: number;
+}
+
+interface TransportResponse {
+  status: number;
+  headers: { [name: string]: string };
+  body: string;
+}
+
+/**
+ * HTTP transport interface<br/>
+ * <p>
+ * Client_ sends every request through a transport.
+ * Implement this interface to run Pixela_ on other runtimes.
+ * </p>
+ */
+interface Transport {
+  fetch(request: TransportRequest): TransportResponse;
+  fetchAll(requests: TransportRequest[]): TransportResponse[];
+  sleep(milliseconds: number): void;
+}
+
+/**
+ * UrlFetchApp transport<br/>
+ * <p>
+ * default transport on Google Apps Script.
+ * </p>
+ */
+class UrlFetchTransport_ implements Transport {
+  public fetch(request: TransportRequest): TransportResponse {
+    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
+      method: request.method,
+      headers: request.headers,
+      muteHttpExceptions: true
+    };
+
+    if (request.payload !== undefined) {
+      options.payload = request.payload;
+    }
+
+    const response = UrlFetchApp.fetch(request.url, options);
+
+    return this.toResponse(response);
+  }
+
+  public fetchAll(requests: TransportRequest[]): TransportResponse[] {
+    const fetchRequests = requests.map(request => {
+      const fetchRequest: GoogleAppsScript.URL_Fetch.URLFetchRequest = {
+        url: request.url,
+        method: request.method,
+        headers: request.headers,
+        muteHttpExceptions: true
+      };
+
+      if (request.payload !== undefined) {
+        fetchRequest.payload = request.payload;
+      }
+
+      return fetchRequest;
+    });
+
+    return UrlFetchApp.fetchAll(fetchRequests).map(response =>
+      this.toResponse(response)
+    );
+  }
+
+  public sleep(milliseconds: number): void {
+    Utilities.sleep(milliseconds);
+  }
+
+  private toResponse(
+    response: GoogleAppsScript.URL_Fetch.HTTPResponse
+  ): TransportResponse {
+    return {
+      status: response.getResponseCode(),
+      headers: response.getAllHeaders() as { [name: string]: string },
+      body: response.getContentText()
+    };
+  }
+}
+
+/**
+ * Node.js transport<br/>
+ * <p>
+ * transport for Node.js (v18 or later). Pixela_ is synchronous, so
+ * requests run concurrently with global fetch in a child node process
+ * and the transport waits for it.
+ * </p>
+ */
+class NodeTransport_ implements Transport {
+  private static readonly script: string = [
+    "let input = '';",
+    "process.stdin.on('data', chunk => (input += chunk));",
+    "process.stdin.on('end', async () => {",
+    "  const requests = JSON.parse(input);",
+    "  const responses = await Promise.all(",
+    "    requests.map(async request => {",
+    "      const response = await fetch(request.url, {",
+    "        method: request.method.toUpperCase(),",
+    "        headers: request.headers,",
+    "        body: request.payload,",
+    "        signal: request.timeout",
+    "          ? AbortSignal.timeout(request.timeout)",
+    "          : undefined",
+    "      });",
+    "      const headers = {};",
+    "      response.headers.forEach((value, name) => (headers[name] = value));",
+    "      const body = await response.text();",
+    "      return { status: response.status, headers, body };",
+    "    })",
+    "  );",
+    "  process.stdout.write(JSON.stringify(responses));",
+    "});"
+  ].join("\n");
+
+  public fetch(request: TransportRequest): TransportResponse {
+    return this.fetchAll([request])[0];
+  }
+
+  public fetchAll(requests: TransportRequest[]): TransportResponse[] {
+    const childProcess = require("child_process");
+
+    const result = childProcess.spawnSync(
+      process.execPath,
+      ["-e", NodeTransport_.script],
+      { input: JSON.stringify(requests), encoding: "utf8" }
+    );
+
+    if (result.error !== undefined) {
+      throw result.error;
+    }
+
+    if (result.status !== 0) {
+      throw new Error("request failed: " + result.stderr);
+    }
+
+    return JSON.parse(result.stdout) as TransportResponse[];
+  }
+
+  public sleep(milliseconds: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, milliseconds);
+  }
+}
+
+/**
+ * in-memory recording transport<br/>
+ * <p>
+ * records every request and replies with queued responses
+ * (or a successful response when the queue is empty). for unit tests.
+ * </p>
+ * <h3>Usage</h3>
+ * <pre>
+ * var transport = new RecordingTransport_();
+ * transport.respondWith(404, '{"message":"not found","isSuccess":false}');
+ * var pixela = new Pixela_(username, token);
+ * pixela.setTransport(transport);
+ * pixela.getPixel(graphID, dateStr);
+ * Logger.log(transport.requests[0].url);
+ * </pre>
+ */
+class RecordingTransport_ implements Transport {
+  public requests: TransportRequest[] = [];
+  public sleeps: number[] = [];
+  private responses: TransportResponse[] = [];
+
+  public fetch(request: TransportRequest): TransportResponse {
+    this.requests.push(request);
+
+    const response = this.responses.shift();
+
+    if (response !== undefined) {
+      return response;
+    }
+
+    return {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message: "Success.", isSuccess: true })
+    };
+  }
+
+  public fetchAll(requests: TransportRequest[]): TransportResponse[] {
+    return requests.map(request => this.fetch(request));
+  }
+
+  /**
+   * queue response for next request<br />
+   * @param {number} status HTTP status code
+   * @param {string} body response body
+   * @param {object} headers optional: response headers
+   * @return {RecordingTransport_} this transport
+   */
+  public respondWith(
+    status: number,
+    body: string,
+    headers?: { [name: string]: string }
+  ): RecordingTransport_ {
+    this.responses.push({
+      status: status,
+      headers: headers !== undefined ? headers : {},
+      body: body
+    });
+
+    return this;
+  }
+
+  public sleep(milliseconds: number): void {
+    this.sleeps.push(milliseconds);
+  }
+}
@@ -0,0 +1,541 @@
+/**
+ * @file pixe.la API request validation
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+const ID_PATTERN_: RegExp = /^[a-z][a-z0-9-]{1,16}$/;
+const USERNAME_PATTERN_: RegExp = /^[a-z][a-z0-9-]{1,32}$/;
+const WEBHOOK_HASH_PATTERN_: RegExp = /^[0-9A-Za-z]+$/;
+const GRAPH_TYPES_: string[] = ["int", "float"];
+const OPTIONAL_DATA_MAX_BYTES_: number = 10240;
+const GRAPH_COLORS_: string[] = [
+  "shibafu",
+  "momiji",
+  "sora",
+  "ichou",
+  "ajisai",
+  "kuro"
+];
+const SELF_SUFFICIENT_VALUES_: string[] = ["increment", "decrement", "none"];
+const GRAPH_NAME_MAX_LENGTH_: number = 64;
+const GRAPH_UNIT_MAX_LENGTH_: number = 32;
+const GRAPH_PURGE_CACHE_URLS_MAX_: number = 5;
+const GRAPH_UPDATE_FIELDS_: string[] = [
+  "name",
+  "unit",
+  "color",
+  "timezone",
+  "purgeCacheURLs",
+  "selfSufficient",
+  "isSecret",
+  "publishOptionalData"
+];
+const WEBHOOK_TYPES_: string[] = [
+  "increment",
+  "decrement",
+  "add",
+  "subtract",
+  "stopwatch"
+];
+const WEBHOOK_QUANTITY_TYPES_: string[] = ["add", "subtract"];
+const CHANNEL_TYPES_: string[] = ["slack"];
+const NOTIFICATION_TARGETS_: string[] = ["quantity"];
+const NOTIFICATION_CONDITIONS_: string[] = [">", "=", "<", "multipleOf"];
+const DATE_PATTERN_: RegExp = /^[0-9]{4}(0[1-9]|1[0-2])(0[1-9]|[12][0-9]|3[01])$/;
+const SVG_MODES_: string[] = ["short", "badge", "line"];
+const SVG_APPEARANCES_: string[] = ["dark"];
+
+/**
+ * throw validation error when problems exist<br />
+ * @param {string} subject validation subject
+ * @param {string[]} problems problems
+ * @return {void}
+ * @throws {PixelaValidationError} when problems is not empty
+ */
+function throwIfInvalid_(subject: string, problems: string[]): void {
+  if (problems.length > 0) {
+    throw new PixelaValidationError(
+      "invalid " + subject + ": " + problems.join(", "),
+      0,
+      "",
+      0,
+      problems
+    );
+  }
+}
+
+/**
+ * validate URL path segment<br />
+ * @param {string} name segment name
+ * @param {string} value segment value
+ * @param {RegExp} pattern pattern of valid value
+ * @return {string} segment value
+ * @throws {PixelaValidationError} when segment is empty or malformed
+ */
+function validatePathSegment_(
+  name: string,
+  value: string,
+  pattern: RegExp
+): string {
+  if (typeof value !== "string" || !pattern.test(value)) {
+    throwIfInvalid_("URL", [name + " must match " + pattern + ": " + value]);
+  }
+
+  return value;
+}
+
+/**
+ * validate pixel date<br />
+ * @param {string} name date name
+ * @param {string} value pixel date (yyyyMMdd)
+ * @return {string} pixel date
+ * @throws {PixelaValidationError} when date is not real calendar date
+ */
+function validateDate_(name: string, value: string): string {
+  if (!isCalendarDate_(value)) {
+    throwIfInvalid_("date", [name + " must be date (yyyyMMdd): " + value]);
+  }
+
+  return value;
+}
+
+/**
+ * check real calendar date (e.g. 20200230 is not)<br />
+ * @param {string} value pixel date (yyyyMMdd)
+ * @return {boolean} true when value is real calendar date
+ */
+function isCalendarDate_(value: string): boolean {
+  if (typeof value !== "string" || !DATE_PATTERN_.test(value)) {
+    return false;
+  }
+
+  const year = Number(value.slice(0, 4));
+  const month = Number(value.slice(4, 6));
+  const day = Number(value.slice(6, 8));
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * validate and format pixel quantity<br />
+ * <p>
+ * quantity is formatted as decimal without exponent notation (1e-7 is 0.0000001).
+ * </p>
+ * @param {string} name quantity name
+ * @param {number} quantity pixel quantity
+ * @param {string} type optional: graph type (int/float)
+ * @return {string} formatted quantity
+ * @throws {PixelaValidationError} when quantity is not finite number or float for int graph
+ */
+function validateQuantity_(
+  name: string,
+  quantity: number,
+  type?: string
+): string {
+  if (typeof quantity !== "number" || !isFinite(quantity)) {
+    throwIfInvalid_("quantity", [name + " must be finite number: " + quantity]);
+  }
+
+  if (type === "int" && quantity % 1 !== 0) {
+    throwIfInvalid_("quantity", [
+      name + " must be integer for int graph: " + quantity
+    ]);
+  }
+
+  return toDecimalString_(quantity);
+}
+
+/**
+ * validate and serialize optionalData<br />
+ * @param {string} name optionalData name
+ * @param {object} optionalData optional data
+ * @return {string} JSON of optionalData
+ * @throws {PixelaValidationError} when JSON is over 10KB in UTF-8
+ */
+function validateOptionalData_(name: string, optionalData: object): string {
+  const json = JSON.stringify(optionalData);
+  // count each percent-encoded byte as one
+  const bytes =
+    json !== undefined
+      ? encodeURIComponent(json).replace(/%[0-9A-F]{2}/g, "_").length
+      : 0;
+
+  if (json === undefined || bytes > OPTIONAL_DATA_MAX_BYTES_) {
+    throwIfInvalid_("optionalData", [
+      name +
+        " must be JSON up to " +
+        OPTIONAL_DATA_MAX_BYTES_ +
+        " bytes: " +
+        bytes +
+        " bytes"
+    ]);
+  }
+
+  return json;
+}
+
+function toDecimalString_(value: number): string {
+  const match = /^(-?)([0-9])(?:\.([0-9]+))?e([+-][0-9]+)$/.exec(String(value));
+
+  if (match === null) {
+    return String(value);
+  }
+
+  const digits = match[2] + (match[3] !== undefined ? match[3] : "");
+  const exponent = Number(match[4]);
+
+  if (exponent < 0) {
+    return match[1] + "0." + "0".repeat(-exponent - 1) + digits;
+  }
+
+  return match[1] + digits + "0".repeat(exponent - digits.length + 1);
+}
+
+/**
+ * validate graph definition<br />
+ * @param {object} definition graph definition elements
+ * @param {boolean} partial allow missing elements (for update)
+ * @return {void}
+ * @throws {PixelaValidationError} when graph definition is invalid
+ */
+function validateGraphDefinition_(
+  definition: Partial<GraphDefinition>,
+  partial: boolean
+) {
+  throwIfInvalid_(
+    "graph definition",
+    graphDefinitionProblems_(definition, partial)
+  );
+}
+
+/**
+ * validate graph update elements<br />
+ * <p>
+ * unknown elements (e.g. typo or type which can't be updated) are problems.
+ * </p>
+ * @param {object} update graph update elements
+ * @return {void}
+ * @throws {PixelaValidationError} when graph update elements are invalid
+ */
+function validateGraphUpdate_(update: GraphUpdate) {
+  const problems: string[] = [];
+
+  for (let key in update) {
+    if (GRAPH_UPDATE_FIELDS_.indexOf(key) === -1) {
+      problems.push(
+        "unknown graph element (" + GRAPH_UPDATE_FIELDS_.join("/") + "): " + key
+      );
+    }
+  }
+
+  if (update.purgeCacheURLs !== undefined) {
+    const urls = update.purgeCacheURLs;
+
+    if (
+      !Array.isArray(urls) ||
+      urls.length > GRAPH_PURGE_CACHE_URLS_MAX_ ||
+      urls.some(url => !/^https:\/\//.test(url))
+    ) {
+      problems.push(
+        "purgeCacheURLs must be up to " +
+          GRAPH_PURGE_CACHE_URLS_MAX_ +
+          " https URLs"
+      );
+    }
+  }
+
+  throwIfInvalid_(
+    "graph update",
+    problems.concat(graphDefinitionProblems_(update, true))
+  );
+}
+
+function graphDefinitionProblems_(
+  definition: Partial<GraphDefinition>,
+  partial: boolean
+): string[] {
+  const problems: string[] = [];
+
+  if (!partial || definition.id !== undefined) {
+    if (definition.id === undefined || !ID_PATTERN_.test(definition.id)) {
+      problems.push("id must match " + ID_PATTERN_ + ": " + definition.id);
+    }
+  }
+
+  const lengths: { key: "name" | "unit"; maxLength: number }[] = [
+    { key: "name", maxLength: GRAPH_NAME_MAX_LENGTH_ },
+    { key: "unit", maxLength: GRAPH_UNIT_MAX_LENGTH_ }
+  ];
+
+  lengths.forEach(({ key, maxLength }) => {
+    // elements may be any value when called from JavaScript
+    const value: unknown = definition[key];
+
+    if (!partial || value !== undefined) {
+      if (typeof value !== "string" || value === "") {
+        problems.push(key + " is required");
+      } else if (value.length > maxLength) {
+        problems.push(key + " must be up to " + maxLength + " characters");
+      }
+    }
+  });
+
+  if (!partial || definition.type !== undefined) {
+    if (GRAPH_TYPES_.indexOf(String(definition.type)) === -1) {
+      problems.push(
+        "type must be one of " + GRAPH_TYPES_.join("/") + ": " + definition.type
+      );
+    }
+  }
+
+  if (!partial || definition.color !== undefined) {
+    if (GRAPH_COLORS_.indexOf(String(definition.color)) === -1) {
+      problems.push(
+        "color must be one of " +
+          GRAPH_COLORS_.join("/") +
+          ": " +
+          definition.color
+      );
+    }
+  }
+
+  if (definition.timezone !== undefined && !isTimezone_(definition.timezone)) {
+    problems.push("timezone must be IANA timezone: " + definition.timezone);
+  }
+
+  if (
+    definition.selfSufficient !== undefined &&
+    SELF_SUFFICIENT_VALUES_.indexOf(String(definition.selfSufficient)) === -1
+  ) {
+    problems.push(
+      "selfSufficient must be one of " +
+        SELF_SUFFICIENT_VALUES_.join("/") +
+        ": " +
+        definition.selfSufficient
+    );
+  }
+
+  (["isSecret", "publishOptionalData"] as const).forEach(key => {
+    const value: unknown = definition[key];
+
+    if (value !== undefined && typeof value !== "boolean") {
+      problems.push(key + " must be boolean: " + value);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * check IANA timezone name<br />
+ * @param {string} timezone timezone name
+ * @return {boolean} true when runtime knows timezone
+ */
+function isTimezone_(timezone: string): boolean {
+  if (typeof timezone !== "string" || timezone === "") {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * validate webhook<br />
+ * @param {string} type webhook type
+ * @param {number} quantity quantity of add/subtract webhook
+ * @return {void}
+ * @throws {PixelaValidationError} when webhook is invalid
+ */
+function validateWebhook_(type: string, quantity?: number) {
+  const problems: string[] = [];
+
+  if (WEBHOOK_TYPES_.indexOf(String(type)) === -1) {
+    problems.push(
+      "type must be one of " + WEBHOOK_TYPES_.join("/") + ": " + type
+    );
+  }
+
+  if (WEBHOOK_QUANTITY_TYPES_.indexOf(String(type)) !== -1) {
+    if (quantity === undefined) {
+      problems.push("quantity is required for " + type + " webhook");
+    }
+  } else if (quantity !== undefined) {
+    problems.push("quantity is available for add/subtract webhook");
+  }
+
+  throwIfInvalid_("webhook", problems);
+}
+
+/**
+ * validate channel<br />
+ * @param {object} channel channel elements
+ * @param {boolean} partial allow missing elements (for update)
+ * @return {void}
+ * @throws {PixelaValidationError} when channel is invalid
+ */
+function validateChannel_(channel: Partial<ChannelsItem>, partial: boolean) {
+  const problems: string[] = [];
+
+  if (!partial || channel.id !== undefined) {
+    if (channel.id === undefined || !ID_PATTERN_.test(channel.id)) {
+      problems.push("id must match " + ID_PATTERN_ + ": " + channel.id);
+    }
+  }
+
+  if ((!partial || channel.name !== undefined) && !channel.name) {
+    problems.push("name is required");
+  }
+
+  if (!partial || channel.type !== undefined) {
+    if (CHANNEL_TYPES_.indexOf(String(channel.type)) === -1) {
+      problems.push(
+        "type must be one of " + CHANNEL_TYPES_.join("/") + ": " + channel.type
+      );
+    }
+  }
+
+  if (!partial || channel.detail !== undefined) {
+    const detail = channel.detail;
+
+    if (detail === undefined || !/^https:\/\//.test(detail.url)) {
+      problems.push("detail.url must be https URL");
+    }
+
+    if (detail === undefined || !detail.userName) {
+      problems.push("detail.userName is required");
+    }
+
+    if (detail === undefined || !detail.channelName) {
+      problems.push("detail.channelName is required");
+    }
+  }
+
+  throwIfInvalid_("channel", problems);
+}
+
+/**
+ * validate graph notification rule<br />
+ * @param {object} notification notification elements
+ * @param {boolean} partial allow missing elements (for update)
+ * @return {void}
+ * @throws {PixelaValidationError} when notification rule is invalid
+ */
+function validateNotification_(
+  notification: Partial<NotificationsItem>,
+  partial: boolean
+) {
+  const problems: string[] = [];
+
+  if (!partial || notification.id !== undefined) {
+    if (notification.id === undefined || !ID_PATTERN_.test(notification.id)) {
+      problems.push("id must match " + ID_PATTERN_ + ": " + notification.id);
+    }
+  }
+
+  if ((!partial || notification.name !== undefined) && !notification.name) {
+    problems.push("name is required");
+  }
+
+  if (!partial || notification.target !== undefined) {
+    if (NOTIFICATION_TARGETS_.indexOf(String(notification.target)) === -1) {
+      problems.push(
+        "target must be one of " +
+          NOTIFICATION_TARGETS_.join("/") +
+          ": " +
+          notification.target
+      );
+    }
+  }
+
+  if (!partial || notification.condition !== undefined) {
+    if (
+      NOTIFICATION_CONDITIONS_.indexOf(String(notification.condition)) === -1
+    ) {
+      problems.push(
+        "condition must be one of " +
+          NOTIFICATION_CONDITIONS_.join("/") +
+          ": " +
+          notification.condition
+      );
+    }
+  }
+
+  if (!partial || notification.threshold !== undefined) {
+    if (!/^-?[0-9]+(\.[0-9]+)?$/.test(String(notification.threshold))) {
+      problems.push("threshold must be number: " + notification.threshold);
+    }
+  }
+
+  if (notification.remindBy !== undefined) {
+    if (!/^([0-9]|1[0-9]|2[0-3])$/.test(notification.remindBy)) {
+      problems.push("remindBy must be hour (0-23): " + notification.remindBy);
+    }
+  }
+
+  if (
+    (!partial || notification.channelID !== undefined) &&
+    !notification.channelID
+  ) {
+    problems.push("channelID is required");
+  }
+
+  throwIfInvalid_("notification", problems);
+}
+
+/**
+ * validate SVG rendering options<br />
+ * @param {object} options SVG rendering options
+ * @return {void}
+ * @throws {PixelaValidationError} when options are invalid
+ */
+function validateSvgOptions_(options: SvgOptions) {
+  const problems: string[] = [];
+
+  if (options.date !== undefined && !isCalendarDate_(options.date)) {
+    problems.push("date must be yyyyMMdd: " + options.date);
+  }
+
+  if (
+    options.mode !== undefined &&
+    SVG_MODES_.indexOf(String(options.mode)) === -1
+  ) {
+    problems.push(
+      "mode must be one of " + SVG_MODES_.join("/") + ": " + options.mode
+    );
+  }
+
+  if (
+    options.appearance !== undefined &&
+    SVG_APPEARANCES_.indexOf(String(options.appearance)) === -1
+  ) {
+    problems.push(
+      "appearance must be one of " +
+        SVG_APPEARANCES_.join("/") +
+        ": " +
+        options.appearance
+    );
+  }
+
+  (["lessThan", "greaterThan"] as const).forEach(key => {
+    // options may be any value when called from JavaScript
+    const value: unknown = options[key];
+
+    if (
+      value !== undefined &&
+      !(typeof value === "number" && isFinite(value))
+    ) {
+      problems.push(key + " must be number: " + value);
+    }
+  });
+
+  throwIfInvalid_("svg options", problems);
+}
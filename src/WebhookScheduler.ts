@@ -0,0 +1,163 @@
+/**
+ * @file pixe.la webhook scheduler
+ * @author Kota SAITO <noissefnoc@gmail.com>
+ * @version v4.0.0
+ * @see {@link https://github.com/noissefnoc/gas-library-pixela}
+ */
+
+interface WebhookSchedule {
+  // name of global function which calls invokeScheduledWebhook
+  handler: string;
+  // one of everyMinutes (1/5/10/15/30), everyHours (1/2/4/6/8/12) or everyDays
+  everyMinutes?: number;
+  everyHours?: number;
+  everyDays?: number;
+  // hour (0-23) of everyDays trigger
+  atHour?: number;
+}
+
+const WEBHOOK_SCHEDULE_MINUTES_: number[] = [1, 5, 10, 15, 30];
+const WEBHOOK_SCHEDULE_HOURS_: number[] = [1, 2, 4, 6, 8, 12];
+
+/**
+ * webhook scheduler<br/>
+ * <p>
+ * install time-driven trigger which invokes webhook on schedule.
+ * trigger can't call library function, so trigger calls handler function
+ * of script and handler calls invokeScheduledWebhook with trigger event.
+ * webhook hash of each trigger is kept in store.
+ * internal use of Pixela_ class
+ * </p>
+ */
+class WebhookScheduler_ {
+  private pixela: Pixela_;
+  private store: KeyValueStore;
+  private username: string;
+
+  constructor(pixela: Pixela_, store: KeyValueStore, username: string) {
+    this.pixela = pixela;
+    this.store = store;
+    this.username = username;
+  }
+
+  public schedule(webhookHash: string, schedule: WebhookSchedule): string {
+    validatePathSegment_("webhookHash", webhookHash, WEBHOOK_HASH_PATTERN_);
+    this.validate(schedule);
+
+    let builder = ScriptApp.newTrigger(schedule.handler).timeBased();
+
+    if (schedule.everyMinutes !== undefined) {
+      builder = builder.everyMinutes(schedule.everyMinutes);
+    } else if (schedule.everyHours !== undefined) {
+      builder = builder.everyHours(schedule.everyHours);
+    } else {
+      builder = builder.everyDays(schedule.everyDays as number);
+
+      if (schedule.atHour !== undefined) {
+        builder = builder.atHour(schedule.atHour);
+      }
+    }
+
+    const triggerUid = builder.create().getUniqueId();
+    this.store.put(this.key(triggerUid), webhookHash);
+
+    return triggerUid;
+  }
+
+  public invoke(event: { triggerUid: string }): BasicResponse {
+    const webhookHash =
+      event !== undefined ? this.store.get(this.key(event.triggerUid)) : null;
+
+    if (webhookHash === null) {
+      throw new PixelaValidationError(
+        "no webhook is scheduled for trigger: " +
+          (event !== undefined ? event.triggerUid : event),
+        0,
+        "",
+        0
+      );
+    }
+
+    return this.pixela.invokeWebhook(webhookHash);
+  }
+
+  public unschedule(webhookHash: string): number {
+    let count = 0;
+
+    ScriptApp.getProjectTriggers().forEach(trigger => {
+      const key = this.key(trigger.getUniqueId());
+
+      if (this.store.get(key) === webhookHash) {
+        ScriptApp.deleteTrigger(trigger);
+        this.store.remove(key);
+        count++;
+      }
+    });
+
+    return count;
+  }
+
+  private validate(schedule: WebhookSchedule): void {
+    const problems: string[] = [];
+    const intervals = [
+      schedule.everyMinutes,
+      schedule.everyHours,
+      schedule.everyDays
+    ].filter(interval => interval !== undefined);
+
+    if (!schedule.handler) {
+      problems.push("handler is required");
+    }
+
+    if (intervals.length !== 1) {
+      problems.push("one of everyMinutes, everyHours or everyDays is required");
+    }
+
+    if (
+      schedule.everyMinutes !== undefined &&
+      WEBHOOK_SCHEDULE_MINUTES_.indexOf(schedule.everyMinutes) === -1
+    ) {
+      problems.push(
+        "everyMinutes must be one of " +
+          WEBHOOK_SCHEDULE_MINUTES_.join("/") +
+          ": " +
+          schedule.everyMinutes
+      );
+    }
+
+    if (
+      schedule.everyHours !== undefined &&
+      WEBHOOK_SCHEDULE_HOURS_.indexOf(schedule.everyHours) === -1
+    ) {
+      problems.push(
+        "everyHours must be one of " +
+          WEBHOOK_SCHEDULE_HOURS_.join("/") +
+          ": " +
+          schedule.everyHours
+      );
+    }
+
+    if (
+      schedule.everyDays !== undefined &&
+      !(schedule.everyDays >= 1 && schedule.everyDays % 1 === 0)
+    ) {
+      problems.push(
+        "everyDays must be positive integer: " + schedule.everyDays
+      );
+    }
+
+    if (schedule.atHour !== undefined) {
+      if (schedule.everyDays === undefined) {
+        problems.push("atHour is available with everyDays");
+      } else if (!/^([0-9]|1[0-9]|2[0-3])$/.test(String(schedule.atHour))) {
+        problems.push("atHour must be hour (0-23): " + schedule.atHour);
+      }
+    }
+
+    throwIfInvalid_("webhook schedule", problems);
+  }
+
+  private key(triggerUid: string): string {
+    return "pixela.webhookTrigger." + this.username + "." + triggerUid;
+  }
+}
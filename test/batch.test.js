@@ -0,0 +1,61 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+test("returns failed operation as response without throwing", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json({ id: "g1", type: "int" }));
+  transport.respondWith(200, json({ id: "g2", type: "int" }));
+  transport.respondWith(200, json({ message: "Success.", isSuccess: true }));
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+
+  const responses = pixela
+    .batch()
+    .updatePixel("g1", "20200101", 1)
+    .updatePixel("g2", "20200101", 1)
+    .execute();
+
+  assert.strictEqual(responses[0].isSuccess, true);
+  assert.strictEqual(responses[1].isSuccess, false);
+  assert.ok(responses[1].error instanceof lib.PixelaNotFoundError);
+});
+
+test("throws validation error when operation is queued", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json({ id: "g1", type: "int" }));
+  const batch = pixela.batch();
+
+  assert.throws(
+    () => batch.updatePixel("g1", "2020-01-01", 1),
+    error => error instanceof lib.PixelaValidationError
+  );
+  assert.strictEqual(batch.size(), 0);
+  assert.deepStrictEqual(
+    transport.requests.map(request => request.method),
+    ["get"]
+  );
+});
+
+test("clears cached graph definition of updated graph", () => {
+  const { pixela, transport } = createPixela();
+  const date = new Date(Date.UTC(2020, 0, 1, 20));
+  transport.respondWith(200, json({ id: "g1", timezone: "UTC" }));
+  transport.respondWith(200, json({ quantity: "1" }));
+
+  pixela.getPixel("g1", date);
+  pixela
+    .batch()
+    .updateGraph("g1", { timezone: "Asia/Tokyo" })
+    .execute();
+
+  transport.respondWith(200, json({ id: "g1", timezone: "Asia/Tokyo" }));
+  transport.respondWith(200, json({ quantity: "1" }));
+  pixela.getPixel("g1", date);
+
+  assert.deepStrictEqual(
+    transport.requests.map(request => request.url.split("/").pop()),
+    ["graph-def", "20200101", "g1", "graph-def", "20200102"]
+  );
+});
@@ -0,0 +1,115 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, json } = require("./helper");
+
+const lib = load();
+
+// shared persistent store such as script cache
+class FakeCacheStore {
+  constructor() {
+    this.values = {};
+  }
+
+  get(key) {
+    return this.values[key] !== undefined ? this.values[key] : null;
+  }
+
+  put(key, value) {
+    this.values[key] = value;
+  }
+}
+
+function createClient(token, store) {
+  const transport = new lib.RecordingTransport_();
+  const client = new lib.Client_(token, {
+    transport: transport,
+    retryPolicy: { jitter: false },
+    cache: { store: store }
+  });
+
+  return { client, transport };
+}
+
+const GRAPHS = {
+  method: "get",
+  url: "https://pixe.la/graphs",
+  endpoint: "graphs"
+};
+const PIXELS = {
+  method: "get",
+  url: "https://pixe.la/graphs/g1/pixels",
+  endpoint: "pixels",
+  graphID: "g1"
+};
+
+test("returns cached response without request", () => {
+  const { client, transport } = createClient("secret", new FakeCacheStore());
+  transport.respondWith(200, json({ graphs: [] }));
+
+  client.send(GRAPHS);
+  const response = client.send(GRAPHS);
+
+  assert.strictEqual(response.cached, true);
+  assert.strictEqual(response.attempts, 0);
+  assert.strictEqual(transport.requests.length, 1);
+});
+
+test("does not share entries between tokens", () => {
+  const store = new FakeCacheStore();
+  const alice = createClient("alice-token", store);
+  const mallory = createClient("mallory-token", store);
+
+  alice.client.send(GRAPHS);
+  mallory.client.send(GRAPHS);
+
+  assert.strictEqual(mallory.transport.requests.length, 1);
+  assert.ok(
+    Object.keys(store.values).every(key => key.indexOf("alice-token") === -1)
+  );
+});
+
+test("invalidates entries of graph on update", () => {
+  const { client, transport } = createClient("secret", new FakeCacheStore());
+
+  client.send(PIXELS);
+  client.send({
+    method: "put",
+    url: "https://pixe.la/graphs/g1/20200101",
+    graphID: "g1"
+  });
+  client.send(PIXELS);
+
+  assert.strictEqual(transport.requests.length, 3);
+});
+
+test("invalidates all entries on update of unknown graph", () => {
+  const { client, transport } = createClient("secret", new FakeCacheStore());
+
+  client.send(PIXELS);
+  client.send(GRAPHS);
+  client.send({ method: "post", url: "https://pixe.la/webhooks/hash" });
+  client.send(PIXELS);
+  client.send(GRAPHS);
+
+  assert.strictEqual(transport.requests.length, 5);
+});
+
+test("does not revive invalidated entries after generation is evicted", () => {
+  const store = new FakeCacheStore();
+  const first = createClient("secret", store);
+
+  first.client.send(PIXELS);
+  first.client.send({
+    method: "put",
+    url: "https://pixe.la/graphs/g1/20200101",
+    graphID: "g1"
+  });
+  Object.keys(store.values)
+    .filter(key => key.indexOf(".generation.") !== -1)
+    .forEach(key => delete store.values[key]);
+
+  const second = createClient("secret", store);
+  second.client.send(PIXELS);
+
+  assert.strictEqual(second.transport.requests.length, 1);
+});
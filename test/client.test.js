@@ -0,0 +1,106 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, json } = require("./helper");
+
+const lib = load();
+
+function createClient(options) {
+  const transport = new lib.RecordingTransport_();
+  const client = new lib.Client_("secret", {
+    transport: transport,
+    retryPolicy: { jitter: false },
+    ...options
+  });
+
+  return { client, transport };
+}
+
+test("sends token header and JSON payload", () => {
+  const { client, transport } = createClient({ userAgent: "test" });
+
+  client.post("https://pixe.la/v1/users/alice/graphs", { id: "g1" });
+
+  const request = transport.requests[0];
+  assert.strictEqual(request.method, "post");
+  assert.strictEqual(request.headers["X-USER-TOKEN"], "secret");
+  assert.strictEqual(request.headers["User-Agent"], "test");
+  assert.strictEqual(request.headers["Content-Type"], "application/json");
+  assert.strictEqual(request.payload, json({ id: "g1" }));
+});
+
+test("does not send payload of GET request", () => {
+  const { client, transport } = createClient();
+
+  client.get("https://pixe.la/v1/users/alice/graphs");
+
+  assert.strictEqual(transport.requests[0].payload, undefined);
+  assert.strictEqual(transport.requests[0].headers["Content-Type"], undefined);
+});
+
+test("returns queued response with attempts and redacted URL", () => {
+  const { client, transport } = createClient();
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+
+  const response = client.get("https://pixe.la/v1/users/secret/graphs");
+
+  assert.strictEqual(response.status, 404);
+  assert.strictEqual(response.attempts, 1);
+  assert.strictEqual(response.url, "https://pixe.la/v1/users/***/graphs");
+});
+
+test("sends requests in chunks and keeps order", () => {
+  const { client, transport } = createClient();
+  transport.respondWith(200, "1");
+  transport.respondWith(200, "2");
+  transport.respondWith(200, "3");
+
+  const responses = client.sendAll(
+    ["a", "b", "c"].map(path => ({
+      method: "get",
+      url: "https://pixe.la/" + path
+    })),
+    2
+  );
+
+  assert.deepStrictEqual(
+    responses.map(response => response.body),
+    ["1", "2", "3"]
+  );
+  assert.deepStrictEqual(
+    transport.requests.map(request => request.url),
+    ["https://pixe.la/a", "https://pixe.la/b", "https://pixe.la/c"]
+  );
+});
+
+test("applies middlewares to request and response", () => {
+  const { client, transport } = createClient();
+  const elapsed = [];
+
+  client.use({
+    beforeRequest: request => ({
+      ...request,
+      headers: { ...request.headers, "X-Test": "1" }
+    }),
+    afterResponse: (request, response, milliseconds) => {
+      elapsed.push(milliseconds);
+      return { ...response, body: "changed" };
+    }
+  });
+
+  const response = client.get("https://pixe.la/v1/users/alice/graphs");
+
+  assert.strictEqual(transport.requests[0].headers["X-Test"], "1");
+  assert.strictEqual(response.body, "changed");
+  assert.strictEqual(elapsed.length, 1);
+});
+
+test("Pixela_ throws typed error on failed response", () => {
+  const transport = new lib.RecordingTransport_();
+  const pixela = new lib.Pixela_("alice", "secret", { transport: transport });
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+
+  assert.throws(
+    () => pixela.getPixel("g1", "20200101"),
+    error => error instanceof lib.PixelaNotFoundError && error.status === 404
+  );
+});
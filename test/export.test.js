@@ -0,0 +1,69 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+load();
+
+function pixels(...items) {
+  return json({ pixels: items });
+}
+
+test("exports whole history over a year without pixels", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json({ totalPixelsCount: 2 }));
+  transport.respondWith(200, pixels({ date: "20201201", quantity: "2" }));
+  transport.respondWith(200, pixels());
+  transport.respondWith(200, pixels({ date: "20180601", quantity: "1" }));
+
+  const table = pixela.exportPixels("g1", { to: "20201231" });
+
+  assert.deepStrictEqual(table.rows, [
+    ["20180601", 1],
+    ["20201201", 2]
+  ]);
+  assert.strictEqual(transport.requests.length, 4);
+  assert.ok(transport.requests[0].url.endsWith("/graphs/g1/stats"));
+  assert.ok(
+    transport.requests[3].url.indexOf("from=20180102&to=20190101") !== -1
+  );
+});
+
+test("stops export without from when pixel is dated after to", () => {
+  const { pixela, transport } = createPixela();
+  // 20210101 is counted by stats but out of fetched windows
+  transport.respondWith(200, json({ totalPixelsCount: 2 }));
+  transport.respondWith(200, pixels({ date: "20200601", quantity: "1" }));
+
+  const table = pixela.exportPixels("g1", { to: "20201231" });
+
+  assert.deepStrictEqual(table.rows, [["20200601", 1]]);
+  // stats, a window with pixel and 3 windows without pixels
+  assert.strictEqual(transport.requests.length, 5);
+  assert.ok(
+    transport.requests[4].url.indexOf("from=20170102&to=20180101") !== -1
+  );
+});
+
+test("exports date range without stats request", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(
+    200,
+    pixels({
+      date: "20200102",
+      quantity: "3",
+      optionalData: json({ note: "a,b", date: "x" })
+    })
+  );
+
+  const csv = pixela.exportPixelsToCSV("g1", {
+    from: "20200101",
+    to: "20200131",
+    dateFormat: "yyyy-MM-dd"
+  });
+
+  assert.strictEqual(
+    csv,
+    'date,quantity,note,optionalData.date\r\n2020-01-02,3,"a,b",x'
+  );
+  assert.strictEqual(transport.requests.length, 1);
+});
@@ -0,0 +1,172 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+const MAPPING = {
+  graphIDQuestion: "Habit",
+  graphIDs: { Running: "running" },
+  dateQuestion: "Date",
+  quantityQuestion: "Minutes",
+  optionalDataQuestions: { memo: "Memo" },
+  mode: "overwrite"
+};
+
+const GRAPH = json({ id: "running", type: "int", timezone: "UTC" });
+
+function submission(answers) {
+  return { answers: { Habit: "Running", Minutes: "30", ...answers } };
+}
+
+test("maps answers to pixel", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, GRAPH);
+
+  const result = pixela.handleFormSubmit(
+    submission({ Date: "2020-01-02", Memo: "park" }),
+    MAPPING
+  );
+
+  assert.strictEqual(result.isSuccess, true);
+  assert.strictEqual(
+    transport.requests[1].url,
+    "https://pixe.la/v1/users/alice/graphs/running/20200102"
+  );
+  assert.strictEqual(
+    transport.requests[1].payload,
+    json({ quantity: "30", optionalData: json({ memo: "park" }) })
+  );
+});
+
+test("adds quantity to current pixel", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json({ quantity: "10" }));
+  transport.respondWith(200, GRAPH);
+
+  const result = pixela.handleFormSubmit(submission({ Date: "2020-01-02" }), {
+    ...MAPPING,
+    mode: "add"
+  });
+
+  assert.strictEqual(result.quantity, 40);
+  assert.strictEqual(transport.requests[0].method, "get");
+  assert.strictEqual(transport.requests[2].payload, json({ quantity: "40" }));
+});
+
+test("reads date of date-time answer", () => {
+  const { pixela } = createPixela();
+
+  const result = pixela.handleFormSubmit(
+    submission({ Date: "2020-01-02 23:30" }),
+    MAPPING
+  );
+
+  assert.strictEqual(result.date, "20200102");
+});
+
+test("converts date-time with offset in graph timezone", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json({ id: "running", timezone: "Asia/Tokyo" }));
+
+  const result = pixela.handleFormSubmit(
+    submission({ Date: "2020-01-01T20:00:00Z" }),
+    MAPPING
+  );
+
+  assert.strictEqual(result.date, "20200102");
+});
+
+test("reports invalid answers without throwing", () => {
+  const { pixela, transport } = createPixela();
+
+  const result = pixela.handleFormSubmit(
+    submission({ Habit: "Swimming", Date: "2020-01-02" }),
+    MAPPING
+  );
+
+  assert.strictEqual(result.isSuccess, false);
+  assert.ok(result.error instanceof lib.PixelaValidationError);
+  assert.strictEqual(transport.requests.length, 0);
+});
+
+test("reports missing mapping without throwing", () => {
+  const { pixela } = createPixela();
+
+  const result = pixela.handleFormSubmit({
+    triggerUid: "1",
+    namedValues: { Habit: ["Running"] },
+    values: ["2020/01/02 10:00:00", "alice@example.com", "Running"]
+  });
+
+  assert.strictEqual(result.isSuccess, false);
+  assert.match(result.error.message, /no form mapping/);
+});
+
+test("reads answers and email of spreadsheet event", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, GRAPH);
+
+  const result = pixela.handleFormSubmit(
+    {
+      namedValues: {
+        Habit: ["Running"],
+        Date: ["2020-01-02"],
+        Minutes: ["30"],
+        Memo: ["a", "b"]
+      },
+      values: ["2020/01/02 10:00:00", "alice@example.com", "Running"]
+    },
+    MAPPING
+  );
+
+  assert.strictEqual(result.isSuccess, true);
+  assert.strictEqual(
+    transport.requests[1].payload,
+    json({ quantity: "30", optionalData: json({ memo: "a, b" }) })
+  );
+});
+
+test("notifies email collected by spreadsheet event", t => {
+  const sent = [];
+  global.MailApp = { sendEmail: (to, subject) => sent.push([to, subject]) };
+  t.after(() => delete global.MailApp);
+  const { pixela } = createPixela();
+
+  const result = pixela.handleFormSubmit(
+    {
+      namedValues: { Habit: ["Swimming"], Date: ["2020-01-02"] },
+      values: ["2020/01/02 10:00:00", "alice@example.com", "Swimming"]
+    },
+    MAPPING
+  );
+
+  assert.strictEqual(result.notified, true);
+  assert.deepStrictEqual(sent, [
+    ["alice@example.com", "Your answer was not recorded"]
+  ]);
+});
+
+test("returns error of submission when notification fails", t => {
+  global.MailApp = {
+    sendEmail: () => {
+      throw new Error("quota exceeded");
+    }
+  };
+  t.after(() => delete global.MailApp);
+  const log = t.mock.method(console, "error", () => {});
+  const { pixela } = createPixela();
+
+  const result = pixela.handleFormSubmit(
+    {
+      namedValues: { Habit: ["Swimming"], Date: ["2020-01-02"] },
+      values: ["2020/01/02 10:00:00", "alice@example.com", "Swimming"]
+    },
+    MAPPING
+  );
+
+  assert.strictEqual(result.isSuccess, false);
+  assert.strictEqual(result.notified, false);
+  assert.ok(result.error instanceof lib.PixelaValidationError);
+  assert.ok(log.mock.calls[0].arguments[0].indexOf("quota exceeded") !== -1);
+});
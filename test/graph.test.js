@@ -0,0 +1,120 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+const GRAPH = {
+  id: "g1",
+  name: "Running",
+  unit: "km",
+  type: "float",
+  color: "sora",
+  timezone: "Asia/Tokyo"
+};
+
+test("sends graph definition to post-graph API", () => {
+  const { pixela, transport } = createPixela();
+
+  pixela.createGraph(GRAPH);
+  pixela.createGraph("g2", "Walk", "km", "int", "shibafu");
+
+  assert.strictEqual(
+    transport.requests[0].payload,
+    json({ ...GRAPH, isSecret: false })
+  );
+  assert.deepStrictEqual(JSON.parse(transport.requests[1].payload), {
+    id: "g2",
+    name: "Walk",
+    unit: "km",
+    type: "int",
+    color: "shibafu",
+    isSecret: false
+  });
+});
+
+test("lists all problems of graph definition", () => {
+  const { pixela, transport } = createPixela();
+
+  assert.throws(
+    () =>
+      pixela.createGraph({
+        id: "1graph",
+        name: "x".repeat(65),
+        unit: "",
+        type: "double",
+        color: "red",
+        timezone: "Mars/Olympus",
+        selfSufficient: "both",
+        isSecret: "yes"
+      }),
+    error => {
+      assert.ok(error instanceof lib.PixelaValidationError);
+      assert.deepStrictEqual(error.problems, [
+        "id must match /^[a-z][a-z0-9-]{1,16}$/: 1graph",
+        "name must be up to 64 characters",
+        "unit is required",
+        "type must be one of int/float: double",
+        "color must be one of shibafu/momiji/sora/ichou/ajisai/kuro: red",
+        "timezone must be IANA timezone: Mars/Olympus",
+        "selfSufficient must be one of increment/decrement/none: both",
+        "isSecret must be boolean: yes"
+      ]);
+      return true;
+    }
+  );
+  assert.strictEqual(transport.requests.length, 0);
+});
+
+test("sends only put-graph elements of update", () => {
+  const { pixela, transport } = createPixela();
+
+  pixela.updateGraph("g1", { name: "Run", unit: undefined, isSecret: true });
+
+  assert.strictEqual(
+    transport.requests[0].payload,
+    json({ name: "Run", isSecret: true })
+  );
+  assert.throws(
+    () => pixela.updateGraph("g1", { type: "int" }),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.problems[0].indexOf("unknown graph element") === 0
+  );
+  assert.strictEqual(transport.requests.length, 1);
+});
+
+test("sends only changed elements and returns diff", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json(GRAPH));
+
+  const response = pixela.updateGraph(
+    "g1",
+    { name: "Running", unit: "mile", selfSufficient: "none", isSecret: true },
+    { diff: true }
+  );
+
+  assert.deepStrictEqual(response.diff, {
+    unit: { before: "km", after: "mile" },
+    isSecret: { before: false, after: true }
+  });
+  assert.strictEqual(
+    transport.requests[1].payload,
+    json({ unit: "mile", isSecret: true })
+  );
+});
+
+test("does not send update without changes", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json(GRAPH));
+
+  const response = pixela.updateGraph(
+    "g1",
+    { name: "Running", timezone: "Asia/Tokyo" },
+    { diff: true }
+  );
+
+  assert.strictEqual(response.message, "No changes.");
+  assert.deepStrictEqual(response.diff, {});
+  assert.strictEqual(transport.requests.length, 1);
+});
@@ -0,0 +1,83 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+load();
+
+test("returns graph definition", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(
+    200,
+    json({ id: "g1", name: "Run", unit: "km", type: "float", color: "sora" })
+  );
+
+  const result = pixela.getGraphDefinition("g1");
+
+  assert.strictEqual(result.isSuccess, true);
+  assert.strictEqual(result.type, "float");
+  assert.strictEqual(
+    transport.requests[0].url,
+    "https://pixe.la/v1/users/alice/graphs/g1/graph-def"
+  );
+});
+
+test("returns latest pixel with parsed optionalData", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(
+    200,
+    json({ date: "20200101", quantity: "5", optionalData: json({ a: 1 }) })
+  );
+
+  const result = pixela.getLatestPixel("g1");
+
+  assert.strictEqual(result.date, "20200101");
+  assert.deepStrictEqual(result.optionalData, { a: 1 });
+  assert.ok(transport.requests[0].url.endsWith("/graphs/g1/latest"));
+});
+
+test("requests today's pixel with returnEmpty", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json({ quantity: "0", optionalData: "note" }));
+
+  const result = pixela.getTodayPixel("g1", true);
+
+  assert.strictEqual(result.quantity, "0");
+  // optionalData which is not JSON is kept as string
+  assert.strictEqual(result.optionalData, "note");
+  assert.ok(
+    transport.requests[0].url.endsWith("/graphs/g1/today?returnEmpty=true")
+  );
+});
+
+test("parses optionalData of each pixel with withBody", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(
+    200,
+    json({
+      pixels: [
+        { date: "20200101", quantity: "1", optionalData: json({ a: 1 }) },
+        { date: "20200102", quantity: "2" }
+      ]
+    })
+  );
+
+  const result = pixela.getGraphPixelsDate("g1", "20200101", "20200131", true);
+
+  assert.deepStrictEqual(result.pixels[0].optionalData, { a: 1 });
+  assert.strictEqual(result.pixels[1].optionalData, undefined);
+  assert.ok(
+    transport.requests[0].url.endsWith(
+      "/graphs/g1/pixels?from=20200101&to=20200131&withBody=true"
+    )
+  );
+});
+
+test("builds graph detail page URL without request", () => {
+  const { pixela, transport } = createPixela();
+
+  assert.strictEqual(
+    pixela.getGraphDetailURL("g1", "simple"),
+    "https://pixe.la/v1/users/alice/graphs/g1.html?mode=simple"
+  );
+  assert.strictEqual(transport.requests.length, 0);
+});
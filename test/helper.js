@@ -0,0 +1,56 @@
+/**
+ * @file test helper which loads the library build
+ *
+ * the library is a set of global scripts (as on Google Apps Script),
+ * so `npm run build:test` concatenates them into build/pixela.js and
+ * it is evaluated in global scope of each test process.
+ */
+const fs = require("fs");
+const path = require("path");
+const vm = require("vm");
+
+const BUILD = path.join(__dirname, "..", "build", "pixela.js");
+
+let loaded = false;
+
+/**
+ * load library<br />
+ * @return {object} global names of library (e.g. lib.Pixela_)
+ */
+function load() {
+  if (!loaded) {
+    vm.runInThisContext(fs.readFileSync(BUILD, "utf8"), { filename: BUILD });
+    loaded = true;
+  }
+
+  return new Proxy({}, { get: (target, name) => vm.runInThisContext(name) });
+}
+
+/**
+ * create client with recording transport<br />
+ * @param {object} options optional: PixelaOptions
+ * @return {object} pixela and transport
+ */
+function createPixela(options) {
+  const lib = load();
+  const transport = new lib.RecordingTransport_();
+  const pixela = new lib.Pixela_("alice", "secret", {
+    transport: transport,
+    stateStore: new lib.MemoryStore_(),
+    retryPolicy: { jitter: false },
+    ...options
+  });
+
+  return { pixela, transport };
+}
+
+/**
+ * JSON response body<br />
+ * @param {object} value body
+ * @return {string} JSON
+ */
+function json(value) {
+  return JSON.stringify(value);
+}
+
+module.exports = { load, createPixela, json };
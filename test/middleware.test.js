@@ -0,0 +1,18 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela } = require("./helper");
+
+const lib = load();
+
+test("logs to console by default outside Apps Script", t => {
+  const log = t.mock.method(console, "log", () => {});
+  const { pixela } = createPixela();
+  pixela.use(lib.createLoggingMiddleware());
+
+  pixela.updateUser("newSecret");
+
+  const entry = JSON.parse(log.mock.calls[0].arguments[0]);
+  assert.strictEqual(entry.method, "put");
+  assert.strictEqual(entry.headers["X-USER-TOKEN"], "***");
+  assert.strictEqual(entry.payload.newToken, "***");
+});
@@ -0,0 +1,108 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+const CHANNEL = {
+  id: "slack",
+  name: "Slack",
+  type: "slack",
+  detail: {
+    url: "https://hooks.slack.com/services/T/B/X",
+    userName: "pixela",
+    channelName: "notify"
+  }
+};
+
+const NOTIFICATION = {
+  id: "goal",
+  name: "goal",
+  target: "quantity",
+  condition: ">",
+  threshold: "10",
+  channelID: "slack"
+};
+
+test("sends channel to post-channel API", () => {
+  const { pixela, transport } = createPixela();
+
+  pixela.createChannel(CHANNEL);
+
+  const request = transport.requests[0];
+  assert.strictEqual(request.method, "post");
+  assert.strictEqual(request.url, "https://pixe.la/v1/users/alice/channels");
+  assert.strictEqual(request.payload, json(CHANNEL));
+});
+
+test("rejects invalid channel without request", () => {
+  const { pixela, transport } = createPixela();
+
+  assert.throws(
+    () =>
+      pixela.createChannel({
+        ...CHANNEL,
+        type: "mail",
+        detail: { url: "http://example.com" }
+      }),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.problems.length === 4 &&
+      error.problems[0] === "type must be one of slack: mail"
+  );
+  assert.strictEqual(transport.requests.length, 0);
+});
+
+test("validates only given elements of channel update", () => {
+  const { pixela, transport } = createPixela();
+
+  pixela.updateChannel("slack", { name: "Team" });
+
+  assert.strictEqual(
+    transport.requests[0].url,
+    "https://pixe.la/v1/users/alice/channels/slack"
+  );
+  assert.throws(
+    () => pixela.updateChannel("slack", { name: "" }),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.problems[0] === "name is required"
+  );
+});
+
+test("sends notification rule to post-notification API", () => {
+  const { pixela, transport } = createPixela();
+
+  pixela.createNotification("g1", NOTIFICATION);
+
+  const request = transport.requests[0];
+  assert.strictEqual(request.method, "post");
+  assert.strictEqual(
+    request.url,
+    "https://pixe.la/v1/users/alice/graphs/g1/notifications"
+  );
+  assert.strictEqual(request.payload, json(NOTIFICATION));
+});
+
+test("rejects invalid notification rule without request", () => {
+  const { pixela, transport } = createPixela();
+
+  assert.throws(
+    () =>
+      pixela.createNotification("g1", {
+        ...NOTIFICATION,
+        condition: ">=",
+        threshold: "ten",
+        remindBy: "24"
+      }),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.problems.length === 3 &&
+      error.problems[0].indexOf("condition must be one of") === 0
+  );
+  assert.throws(
+    () => pixela.updateNotification("g1", "goal", { threshold: "ten" }),
+    error => error instanceof lib.PixelaValidationError
+  );
+  assert.strictEqual(transport.requests.length, 0);
+});
@@ -0,0 +1,58 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+// 2020-01-01 20:00 UTC is 2020-01-02 in Asia/Tokyo
+const DATE = new Date(Date.UTC(2020, 0, 1, 20));
+
+test("converts Date to pixel date in graph timezone", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json({ id: "g1", timezone: "Asia/Tokyo" }));
+
+  pixela.createPixel("g1", DATE, 1);
+  pixela.getGraphPixelsDate("g1", DATE, new Date(Date.UTC(2020, 0, 31)));
+  pixela.deletePixel("g1", DATE);
+
+  assert.deepStrictEqual(
+    transport.requests.map(request =>
+      request.url.replace("https://pixe.la/v1/users/alice/graphs/", "")
+    ),
+    ["g1/graph-def", "g1", "g1/pixels?from=20200102&to=20200131", "g1/20200102"]
+  );
+  assert.strictEqual(
+    JSON.parse(transport.requests[1].payload).date,
+    "20200102"
+  );
+});
+
+test("converts Date in UTC for graph without timezone", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json({ id: "g1" }));
+
+  pixela.updatePixel("g1", DATE, 1);
+
+  assert.ok(transport.requests[1].url.endsWith("/graphs/g1/20200101"));
+});
+
+test("returns failed lookup of graph timezone when throwOnError is false", () => {
+  const { pixela, transport } = createPixela({ throwOnError: false });
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+
+  const result = pixela.getPixel("g1", DATE);
+
+  assert.strictEqual(result.isSuccess, false);
+  assert.ok(result.error instanceof lib.PixelaNotFoundError);
+  assert.strictEqual(transport.requests.length, 1);
+});
+
+test("throws failed lookup of graph timezone by default", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+
+  assert.throws(
+    () => pixela.deletePixel("g1", DATE),
+    error => error instanceof lib.PixelaNotFoundError
+  );
+});
@@ -0,0 +1,106 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+const GRAPH = json({ id: "g1", type: "float", timezone: "UTC" });
+
+function pixels(count) {
+  return Array.from({ length: count }, (value, index) => ({
+    date: "2020010" + (index + 1),
+    quantity: index + 1
+  }));
+}
+
+test("sends pixels in chunks to batch-post-pixels API", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, GRAPH);
+
+  const responses = pixela.createPixels("g1", pixels(5), 2);
+  const posts = transport.requests.slice(1);
+
+  assert.strictEqual(responses.length, 3);
+  assert.deepStrictEqual(
+    posts.map(request => JSON.parse(request.payload).length),
+    [2, 2, 1]
+  );
+  assert.ok(posts[0].url.endsWith("/graphs/g1/pixels"));
+  assert.deepStrictEqual(JSON.parse(posts[2].payload), [
+    { date: "20200105", quantity: "5" }
+  ]);
+});
+
+test("stops sending chunks after failure", () => {
+  const { pixela, transport } = createPixela({ throwOnError: false });
+  transport.respondWith(200, GRAPH);
+  transport.respondWith(200, json({ message: "Success.", isSuccess: true }));
+  transport.respondWith(400, json({ message: "invalid", isSuccess: false }));
+
+  const responses = pixela.createPixels("g1", pixels(5), 2);
+
+  assert.deepStrictEqual(
+    responses.map(response => response.isSuccess),
+    [true, false]
+  );
+  assert.strictEqual(transport.requests.length, 3);
+});
+
+test("validates all pixels before first chunk", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, GRAPH);
+  const invalid = pixels(3);
+  invalid[2].date = "20200230";
+
+  assert.throws(
+    () => pixela.createPixels("g1", invalid, 2),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.message.indexOf("20200230") !== -1
+  );
+  assert.throws(
+    () => pixela.createPixels("g1", pixels(1), 101),
+    error => error instanceof lib.PixelaValidationError
+  );
+  assert.deepStrictEqual(
+    transport.requests.map(request => request.method),
+    ["get"]
+  );
+});
+
+test("adds and subtracts quantity of today's pixel", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, GRAPH);
+
+  pixela.addPixel("g1", 1.5);
+  pixela.subtractPixel("g1", 2);
+
+  assert.deepStrictEqual(
+    transport.requests.map(request => [
+      request.method,
+      request.url.split("/").pop(),
+      request.payload
+    ]),
+    [
+      ["get", "graph-def", undefined],
+      ["put", "add", json({ quantity: "1.5" })],
+      ["put", "subtract", json({ quantity: "2" })]
+    ]
+  );
+});
+
+test("returns failed graph type lookup when throwOnError is false", () => {
+  const { pixela, transport } = createPixela({ throwOnError: false });
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+
+  const responses = pixela.createPixels("g1", pixels(3), 2);
+  const response = pixela.addPixel("g1", 1);
+
+  assert.strictEqual(responses.length, 1);
+  assert.ok(responses[0].error instanceof lib.PixelaNotFoundError);
+  assert.strictEqual(response.isSuccess, false);
+  assert.ok(
+    transport.requests.every(request => request.url.endsWith("/graph-def"))
+  );
+});
@@ -0,0 +1,30 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+load();
+
+test("returns profile page HTML", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, "<html></html>");
+
+  const result = pixela.getProfile();
+
+  assert.strictEqual(result.isSuccess, true);
+  assert.strictEqual(result.html, "<html></html>");
+  assert.strictEqual(transport.requests[0].url, "https://pixe.la/@alice");
+});
+
+test("sends profile elements to put-profile API", () => {
+  const { pixela, transport } = createPixela();
+
+  pixela.updateProfile({ displayName: "Alice", contributeURLs: [] });
+
+  const request = transport.requests[0];
+  assert.strictEqual(request.method, "put");
+  assert.strictEqual(request.url, "https://pixe.la/v1/@alice");
+  assert.strictEqual(
+    request.payload,
+    json({ displayName: "Alice", contributeURLs: [] })
+  );
+});
@@ -0,0 +1,112 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+const manifest = {
+  graphs: [
+    {
+      id: "g1",
+      name: "Running",
+      unit: "km",
+      type: "float",
+      color: "sora",
+      timezone: "Asia/Tokyo",
+      webhooks: []
+    }
+  ]
+};
+
+function respondAccount(transport, name) {
+  transport.respondWith(
+    200,
+    json({
+      graphs: [
+        {
+          id: "g1",
+          name: name,
+          unit: "km",
+          type: "float",
+          color: "sora",
+          timezone: "Asia/Tokyo",
+          purgeCacheURLs: [],
+          selfSufficient: "none",
+          isSecret: false,
+          publishOptionalData: false
+        }
+      ]
+    })
+  );
+  transport.respondWith(200, json({ webhooks: [] }));
+}
+
+test("plans and applies only changed graph elements", () => {
+  const { pixela, transport } = createPixela();
+  respondAccount(transport, "Run");
+
+  const plan = pixela.planManifest(manifest);
+
+  assert.strictEqual(
+    plan.text,
+    '~ update graph g1: name "Run" -> "Running"\n' +
+      "Plan: 0 to create, 1 to update, 0 to delete."
+  );
+
+  respondAccount(transport, "Run");
+
+  const result = pixela.applyPlan(plan, { confirm: true });
+
+  assert.strictEqual(result.applied.length, 1);
+  assert.strictEqual(result.failed, undefined);
+
+  const request = transport.requests[4];
+  assert.strictEqual(request.method, "put");
+  assert.strictEqual(request.payload, json({ name: "Running" }));
+});
+
+test("refuses plan when account is changed after plan", () => {
+  const { pixela, transport } = createPixela();
+  respondAccount(transport, "Run");
+
+  const plan = pixela.planManifest(manifest);
+
+  respondAccount(transport, "Running");
+
+  assert.throws(
+    () => pixela.applyPlan(plan, { confirm: true }),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.problems[0].indexOf("plan is outdated") === 0
+  );
+  assert.strictEqual(transport.requests.length, 4);
+});
+
+test("plans again without cached responses", () => {
+  const { pixela, transport } = createPixela({ cache: true });
+  respondAccount(transport, "Run");
+
+  const plan = pixela.planManifest(manifest);
+
+  respondAccount(transport, "Running");
+
+  assert.throws(
+    () => pixela.applyPlan(plan, { confirm: true }),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.problems[0].indexOf("plan is outdated") === 0
+  );
+  assert.ok(transport.requests[2].url.endsWith("/graphs"));
+});
+
+test("rejects undefined manifest", () => {
+  const { pixela, transport } = createPixela();
+
+  assert.throws(
+    () => pixela.planManifest(undefined),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.problems[0] === "graphs must be array"
+  );
+  assert.strictEqual(transport.requests.length, 0);
+});
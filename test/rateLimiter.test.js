@@ -0,0 +1,97 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+test("keeps daily counter per username", () => {
+  const dayStore = new lib.MemoryStore_();
+  const alice = new lib.RateLimiter_({ dayStore: dayStore }, "alice");
+  const bob = new lib.RateLimiter_({ dayStore: dayStore }, "bob");
+
+  alice.acquire(() => {});
+  alice.acquire(() => {});
+  bob.acquire(() => {});
+
+  assert.strictEqual(alice.getStatus().usedToday, 2);
+  assert.strictEqual(bob.getStatus().usedToday, 1);
+});
+
+test("waits until next second when per-second limit is reached", () => {
+  const limiter = new lib.RateLimiter_({ requestsPerSecond: 1 }, "alice");
+  const sleeps = [];
+
+  limiter.acquire(milliseconds => sleeps.push(milliseconds));
+  limiter.acquire(milliseconds => sleeps.push(milliseconds));
+
+  assert.strictEqual(sleeps.length, 1);
+  assert.ok(sleeps[0] > 0 && sleeps[0] <= 1000);
+});
+
+test("fails request over daily quota without sending", () => {
+  const { pixela, transport } = createPixela({
+    rateLimit: { requestsPerDay: 1, dayStore: new lib.MemoryStore_() }
+  });
+
+  pixela.deletePixel("g1", "20200101");
+
+  assert.throws(
+    () => pixela.deletePixel("g1", "20200102"),
+    error => error instanceof lib.PixelaRateLimitError && error.status === 429
+  );
+  assert.strictEqual(transport.requests.length, 1);
+});
+
+test("returns failed response over daily quota when throwOnError is false", () => {
+  const { pixela, transport } = createPixela({
+    throwOnError: false,
+    validateGraphType: false,
+    rateLimit: { requestsPerDay: 2, dayStore: new lib.MemoryStore_() }
+  });
+  transport.respondWith(200, json({ message: "Success.", isSuccess: true }));
+
+  const responses = pixela
+    .batch()
+    .updatePixel("g1", "20200101", 1)
+    .updatePixel("g1", "20200102", 1)
+    .updatePixel("g1", "20200103", 1)
+    .execute();
+
+  assert.deepStrictEqual(
+    responses.map(response => response.isSuccess),
+    [true, true, false]
+  );
+  assert.ok(responses[2].error instanceof lib.PixelaRateLimitError);
+  assert.strictEqual(transport.requests.length, 2);
+  assert.strictEqual(pixela.getQuotaStatus().remainingToday, 0);
+});
+
+test("sends batch within per-second limit", t => {
+  let now = 1577836800000;
+  t.mock.method(Date, "now", () => now);
+
+  const { pixela, transport } = createPixela({
+    rateLimit: { requestsPerSecond: 2, secondStore: new lib.MemoryStore_() }
+  });
+  const sentAt = [];
+  const fetch = transport.fetch.bind(transport);
+  transport.fetch = request => {
+    sentAt.push(now);
+    return fetch(request);
+  };
+  transport.sleep = milliseconds => (now += milliseconds);
+
+  pixela
+    .batch()
+    .deletePixel("g1", "20200101")
+    .deletePixel("g1", "20200102")
+    .deletePixel("g1", "20200103")
+    .deletePixel("g1", "20200104")
+    .deletePixel("g1", "20200105")
+    .execute();
+
+  assert.deepStrictEqual(
+    sentAt.map(time => time - 1577836800000),
+    [0, 0, 1000, 1000, 2000]
+  );
+});
@@ -0,0 +1,46 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela } = require("./helper");
+
+const lib = load();
+
+function rejects(fn) {
+  assert.throws(
+    fn,
+    error =>
+      error instanceof lib.PixelaValidationError && error.problems.length === 1
+  );
+}
+
+test("rejects path segment injection without request", () => {
+  const { pixela, transport } = createPixela();
+
+  ["../g1", "g1?x=1", "g1#a", "g1/pixels", "G1", ""].forEach(graphID =>
+    rejects(() => pixela.getGraphStat(graphID))
+  );
+  rejects(() => pixela.invokeWebhook("../hash"));
+  rejects(() => pixela.invokeWebhook("hash?x"));
+  rejects(() => pixela.deleteNotification("g1", "goal#x"));
+  rejects(() => pixela.deleteChannel("../slack"));
+  rejects(() => pixela.getPixel("g1", "2020010?"));
+  assert.strictEqual(transport.requests.length, 0);
+});
+
+test("rejects malformed username", () => {
+  const transport = new lib.RecordingTransport_();
+  const pixela = new lib.Pixela_("alice/../bob", "secret", {
+    transport: transport
+  });
+
+  rejects(() => pixela.getGraph());
+  assert.strictEqual(transport.requests.length, 0);
+});
+
+test("percent-encodes query parameters", () => {
+  const { pixela } = createPixela();
+
+  assert.strictEqual(
+    pixela.getGraphDetailURL("g1", "simple&x=1"),
+    "https://pixe.la/v1/users/alice/graphs/g1.html?mode=simple%26x%3D1"
+  );
+});
@@ -0,0 +1,65 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+test("returns typed result with HTTP metadata", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json({ totalPixelsCount: 3 }));
+
+  const result = pixela.getGraphStat("g1");
+
+  assert.strictEqual(result.isSuccess, true);
+  assert.strictEqual(result.totalPixelsCount, 3);
+  assert.strictEqual(result.status, 200);
+  assert.strictEqual(result.attempts, 1);
+  assert.strictEqual(
+    result.url,
+    "https://pixe.la/v1/users/alice/graphs/g1/stats"
+  );
+});
+
+test("returns failed response instead of typed result", () => {
+  const { pixela, transport } = createPixela({ throwOnError: false });
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+
+  const result = pixela.getGraphStat("g1");
+
+  assert.strictEqual(result.isSuccess, false);
+  assert.strictEqual(result.message, "not found");
+  assert.ok(result.error instanceof lib.PixelaNotFoundError);
+});
+
+test("parses optionalData of pixel", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(
+    200,
+    json({ quantity: "5", optionalData: json({ note: "run" }) })
+  );
+
+  const result = pixela.getPixel("g1", "20200101");
+
+  assert.deepStrictEqual(result.optionalData, { note: "run" });
+});
+
+test("wraps SVG document", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, "<svg></svg>");
+
+  const result = pixela.getSvg("g1", { mode: "short" });
+
+  assert.strictEqual(result.isSuccess, true);
+  assert.strictEqual(result.svg, "<svg></svg>");
+  assert.strictEqual(result.status, 200);
+});
+
+test("returns failed response of SVG", () => {
+  const { pixela, transport } = createPixela({ throwOnError: false });
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+
+  const result = pixela.getSvg("g1");
+
+  assert.strictEqual(result.isSuccess, false);
+  assert.ok(result.error instanceof lib.PixelaNotFoundError);
+});
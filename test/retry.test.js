@@ -0,0 +1,78 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, json } = require("./helper");
+
+const lib = load();
+
+function createClient(retryPolicy) {
+  const transport = new lib.RecordingTransport_();
+  const client = new lib.Client_("secret", {
+    transport: transport,
+    retryPolicy: { jitter: false, ...retryPolicy }
+  });
+
+  return { client, transport };
+}
+
+test("retries GET request on server error", () => {
+  const { client, transport } = createClient();
+  transport.respondWith(502, "Bad Gateway");
+
+  const response = client.get("https://pixe.la/v1/users/alice/graphs");
+
+  assert.strictEqual(response.status, 200);
+  assert.strictEqual(response.attempts, 2);
+  assert.deepStrictEqual(transport.sleeps, [500]);
+});
+
+test("does not retry non-GET request on server error", () => {
+  const { client, transport } = createClient();
+  transport.respondWith(502, "Bad Gateway");
+
+  const response = client.post("https://pixe.la/v1/users/alice/graphs/g1", {
+    date: "20200101",
+    quantity: "1"
+  });
+
+  assert.strictEqual(response.status, 502);
+  assert.strictEqual(response.attempts, 1);
+  assert.strictEqual(transport.requests.length, 1);
+});
+
+test("retries non-GET request on 503 and rejected request", () => {
+  const { client, transport } = createClient();
+  transport.respondWith(503, "Service Unavailable");
+  transport.respondWith(
+    503,
+    json({ message: "Please retry this request.", isSuccess: false })
+  );
+
+  const response = client.put("https://pixe.la/v1/users/alice/graphs/g1", {});
+
+  assert.strictEqual(response.status, 200);
+  assert.strictEqual(response.attempts, 3);
+  assert.deepStrictEqual(transport.sleeps, [500, 1000]);
+});
+
+test("measures time budget from the first attempt outside Apps Script", t => {
+  // long running process started an hour before the request
+  const now = Date.now();
+  t.mock.method(Date, "now", () => now + 3600000);
+  const { client, transport } = createClient({ executionTimeBudget: 10000 });
+  transport.respondWith(429, "Too Many Requests");
+
+  const response = client.get("https://pixe.la/v1/users/alice/graphs");
+
+  assert.strictEqual(response.status, 200);
+  assert.strictEqual(response.attempts, 2);
+});
+
+test("stops retrying when time budget is exhausted", () => {
+  const { client, transport } = createClient({ executionTimeBudget: 100 });
+  transport.respondWith(429, "Too Many Requests");
+
+  const response = client.get("https://pixe.la/v1/users/alice/graphs");
+
+  assert.strictEqual(response.status, 429);
+  assert.strictEqual(response.attempts, 1);
+});
@@ -0,0 +1,204 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+const OPTIONS = {
+  graphID: "g1",
+  dateColumn: "date",
+  quantityColumn: "quantity",
+  aggregation: "sum",
+  statusColumn: "status"
+};
+
+const GRAPH = json({ id: "g1", type: "int", timezone: "UTC" });
+
+function createSheet() {
+  return new lib.FakeSheet_([
+    ["date", "quantity", "status"],
+    ["20200101", 1],
+    ["20200101", 2],
+    ["20200102", 5],
+    ["2020-13-01", 1]
+  ]);
+}
+
+test("pushes aggregated pixels and writes status", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, GRAPH);
+  const sheet = createSheet();
+
+  const result = pixela.syncSheet(sheet, OPTIONS);
+
+  assert.deepStrictEqual(
+    { ...result },
+    { pushed: 2, unchanged: 0, failed: 0, invalidRows: 1 }
+  );
+  assert.deepStrictEqual(
+    transport.requests.slice(1).map(request => [request.url, request.payload]),
+    [
+      [
+        "https://pixe.la/v1/users/alice/graphs/g1/20200101",
+        json({ quantity: "3" })
+      ],
+      [
+        "https://pixe.la/v1/users/alice/graphs/g1/20200102",
+        json({ quantity: "5" })
+      ]
+    ]
+  );
+  assert.deepStrictEqual(
+    sheet.values.slice(1).map(row => row[2]),
+    ["synced", "synced", "synced", "error"]
+  );
+});
+
+test("skips pixels unchanged since last sync", () => {
+  const stateStore = new lib.MemoryStore_();
+  const { pixela, transport } = createPixela({ stateStore: stateStore });
+  transport.respondWith(200, GRAPH);
+  const sheet = createSheet();
+
+  pixela.syncSheet(sheet, OPTIONS);
+  sheet.values[3][1] = 6;
+  const result = pixela.syncSheet(sheet, OPTIONS);
+
+  assert.strictEqual(result.pushed, 1);
+  assert.strictEqual(result.unchanged, 1);
+  assert.strictEqual(transport.requests.length, 4);
+  assert.strictEqual(stateStore.get("pixela.sheetSync.alice.g1"), "1");
+});
+
+test("does not keep fingerprint of failed pixel", () => {
+  const { pixela, transport } = createPixela();
+  const sheet = createSheet();
+  transport.respondWith(200, GRAPH);
+  transport.respondWith(200, json({ message: "Success.", isSuccess: true }));
+  transport.respondWith(400, json({ message: "invalid", isSuccess: false }));
+
+  const first = pixela.syncSheet(sheet, OPTIONS);
+  const second = pixela.syncSheet(sheet, OPTIONS);
+
+  assert.strictEqual(first.failed, 1);
+  assert.strictEqual(second.pushed, 1);
+  assert.strictEqual(second.unchanged, 1);
+});
+
+test("reads dates in spreadsheet timezone", () => {
+  const { pixela, transport } = createPixela();
+  const sheet = new lib.FakeSheet_(
+    [
+      ["date", "quantity"],
+      [new Date("2020-01-01T20:00:00Z"), 1]
+    ],
+    "Asia/Tokyo"
+  );
+  transport.respondWith(200, GRAPH);
+
+  pixela.syncSheet(sheet, { graphID: "g1", dateColumn: 1, quantityColumn: 2 });
+
+  assert.strictEqual(
+    transport.requests[1].url,
+    "https://pixe.la/v1/users/alice/graphs/g1/20200102"
+  );
+});
+
+test("keeps fingerprints of many dates in chunks", () => {
+  const stateStore = new lib.MemoryStore_();
+  const { pixela, transport } = createPixela({ stateStore: stateStore });
+  transport.respondWith(200, GRAPH);
+  const rows = [["date", "quantity", "status"]];
+
+  for (let day = 0; day < 600; day++) {
+    rows.push([new Date(Date.UTC(2020, 0, 1 + day)), day]);
+  }
+
+  pixela.syncSheet(new lib.FakeSheet_(rows), OPTIONS);
+  const result = pixela.syncSheet(new lib.FakeSheet_(rows), OPTIONS);
+
+  assert.strictEqual(result.unchanged, 600);
+  assert.strictEqual(transport.requests.length, 601);
+  assert.strictEqual(stateStore.get("pixela.sheetSync.alice.g1"), "2");
+  assert.strictEqual(
+    stateStore.get("pixela.sheetSync.alice.g1.0").length,
+    8000
+  );
+});
+
+test("sends optionalData of last row only with last aggregation", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, GRAPH);
+  const sheet = new lib.FakeSheet_([
+    ["date", "quantity", "memo"],
+    ["20200101", 1, "first"],
+    ["20200101", 2, ""]
+  ]);
+
+  pixela.syncSheet(sheet, {
+    graphID: "g1",
+    dateColumn: "date",
+    quantityColumn: "quantity",
+    optionalDataColumns: { memo: "memo" }
+  });
+
+  assert.strictEqual(transport.requests[1].payload, json({ quantity: "2" }));
+});
+
+test("keeps fingerprints written by concurrent sync under script lock", t => {
+  const locks = [];
+  const lock = name => ({
+    waitLock: () => locks.push(name + ".wait"),
+    releaseLock: () => locks.push(name + ".release")
+  });
+  global.LockService = {
+    getScriptLock: () => lock("script"),
+    getUserLock: () => lock("user")
+  };
+  t.after(() => delete global.LockService);
+
+  const options = { graphID: "g1", dateColumn: 1, quantityColumn: 2 };
+  const stateStore = new lib.MemoryStore_();
+  const first = createPixela({ stateStore: stateStore });
+  const second = createPixela({ stateStore: stateStore });
+  const fetch = first.transport.fetch.bind(first.transport);
+  first.transport.respondWith(200, GRAPH);
+  second.transport.respondWith(200, GRAPH);
+
+  // second sync runs while pixel of first sync is being sent
+  first.transport.fetch = request => {
+    if (request.method === "put") {
+      second.pixela.syncSheet(
+        new lib.FakeSheet_([
+          ["date", "quantity"],
+          ["20200102", 2]
+        ]),
+        options
+      );
+    }
+
+    return fetch(request);
+  };
+  first.pixela.syncSheet(
+    new lib.FakeSheet_([
+      ["date", "quantity"],
+      ["20200101", 1]
+    ]),
+    options
+  );
+
+  const result = second.pixela.syncSheet(
+    new lib.FakeSheet_([
+      ["date", "quantity"],
+      ["20200101", 1],
+      ["20200102", 2]
+    ]),
+    options
+  );
+
+  assert.strictEqual(result.unchanged, 2);
+  assert.deepStrictEqual(
+    locks.filter(name => name.startsWith("script")),
+    ["script.wait", "script.release", "script.wait", "script.release"]
+  );
+});
@@ -0,0 +1,84 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+const START = 1577836800000;
+
+function graph(unit, type) {
+  return json({ id: "g1", unit: unit, type: type, timezone: "UTC" });
+}
+
+test("uses stopwatch API for minutes graph", t => {
+  let now = START;
+  t.mock.method(Date, "now", () => now);
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, graph("minutes", "int"));
+
+  pixela.startStopwatch("g1");
+  assert.strictEqual(pixela.getStopwatchStatus("g1").mode, "server");
+
+  now += 90000;
+  const response = pixela.stopStopwatch("g1");
+
+  assert.strictEqual(response.elapsedMinutes, 1.5);
+  assert.strictEqual(response.quantity, undefined);
+  assert.deepStrictEqual(
+    transport.requests.map(request => request.url.split("/").pop()),
+    ["graph-def", "stopwatch", "stopwatch"]
+  );
+  assert.strictEqual(pixela.getStopwatchStatus("g1").running, false);
+});
+
+test("adds elapsed time by add-pixel API for hours graph", t => {
+  let now = START;
+  t.mock.method(Date, "now", () => now);
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, graph("hours", "float"));
+
+  pixela.startStopwatch("g1");
+
+  const status = pixela.getStopwatchStatus("g1");
+  assert.strictEqual(status.mode, "local");
+  assert.strictEqual(status.startedAt, "2020-01-01T00:00:00.000Z");
+
+  now += 45 * 60000;
+  const response = pixela.stopStopwatch("g1");
+
+  assert.strictEqual(response.quantity, 0.75);
+  assert.strictEqual(transport.requests.length, 2);
+  assert.ok(transport.requests[1].url.endsWith("/graphs/g1/add"));
+  assert.strictEqual(transport.requests[1].payload, json({ quantity: "0.75" }));
+});
+
+test("keeps local stopwatch running when add-pixel fails", () => {
+  const { pixela, transport } = createPixela({ throwOnError: false });
+  transport.respondWith(200, graph("seconds", "int"));
+  transport.respondWith(400, json({ message: "invalid", isSuccess: false }));
+
+  pixela.startStopwatch("g1");
+  const response = pixela.stopStopwatch("g1");
+
+  assert.strictEqual(response.isSuccess, false);
+  assert.strictEqual(pixela.getStopwatchStatus("g1").running, true);
+});
+
+test("rejects graph of non-time unit and running stopwatch", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, graph("km", "float"));
+  transport.respondWith(200, graph("hours", "float"));
+
+  assert.throws(
+    () => pixela.startStopwatch("g1"),
+    error => error instanceof lib.PixelaValidationError
+  );
+
+  pixela.startStopwatch("g1");
+
+  assert.throws(
+    () => pixela.startStopwatch("g1"),
+    error => error instanceof lib.PixelaValidationError
+  );
+  assert.strictEqual(transport.requests.length, 2);
+});
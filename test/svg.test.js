@@ -0,0 +1,58 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela } = require("./helper");
+
+const lib = load();
+
+test("builds SVG URL with options in query", () => {
+  const { pixela, transport } = createPixela();
+
+  assert.strictEqual(
+    pixela.getSvgURL("g1", {
+      date: "20200101",
+      mode: "short",
+      appearance: "dark",
+      lessThan: 10,
+      greaterThan: -0.5
+    }),
+    "https://pixe.la/v1/users/alice/graphs/g1" +
+      "?date=20200101&mode=short&appearance=dark&lessThan=10&greaterThan=-0.5"
+  );
+  assert.strictEqual(
+    pixela.getSvgURL("g1"),
+    "https://pixe.la/v1/users/alice/graphs/g1"
+  );
+  assert.strictEqual(transport.requests.length, 0);
+});
+
+test("accepts date and mode arguments of getSvg", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, "<svg></svg>");
+
+  pixela.getSvg("g1", "20200101", "line");
+
+  assert.ok(
+    transport.requests[0].url.endsWith("/graphs/g1?date=20200101&mode=line")
+  );
+});
+
+test("rejects invalid SVG options without request", () => {
+  const { pixela, transport } = createPixela();
+
+  assert.throws(
+    () =>
+      pixela.getSvgURL("g1", {
+        date: "2020-01-01",
+        mode: "long",
+        appearance: "light",
+        lessThan: "10"
+      }),
+    error =>
+      error instanceof lib.PixelaValidationError && error.problems.length === 4
+  );
+  assert.throws(
+    () => pixela.getSvg("g1", { greaterThan: Infinity }),
+    error => error instanceof lib.PixelaValidationError
+  );
+  assert.strictEqual(transport.requests.length, 0);
+});
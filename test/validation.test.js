@@ -0,0 +1,123 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+const INT_GRAPH = { id: "g1", type: "int", timezone: "UTC" };
+
+test("looks up graph type once per graph", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json(INT_GRAPH));
+
+  pixela.updatePixel("g1", "20200101", 1);
+  pixela.updatePixel("g1", "20200102", 2);
+
+  assert.deepStrictEqual(
+    transport.requests.map(request => request.url.split("/").pop()),
+    ["graph-def", "20200101", "20200102"]
+  );
+});
+
+test("does not look up graph type when validateGraphType is false", () => {
+  const { pixela, transport } = createPixela({ validateGraphType: false });
+
+  pixela.updatePixel("g1", "20200101", 1.5);
+
+  assert.strictEqual(transport.requests.length, 1);
+  assert.strictEqual(transport.requests[0].method, "put");
+});
+
+test("rejects float quantity of int graph", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json(INT_GRAPH));
+
+  assert.throws(
+    () => pixela.updatePixel("g1", "20200101", 1.5),
+    error => error instanceof lib.PixelaValidationError
+  );
+  assert.strictEqual(transport.requests.length, 1);
+});
+
+test("throws failure of graph type lookup", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(404, json({ message: "not found", isSuccess: false }));
+
+  assert.throws(
+    () => pixela.updatePixel("g1", "20200101", 1),
+    error => error instanceof lib.PixelaNotFoundError
+  );
+  assert.strictEqual(transport.requests.length, 1);
+});
+
+test("checks graph type of batch operations", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, json(INT_GRAPH));
+  const batch = pixela.batch().updatePixel("g1", "20200101", 1);
+
+  assert.throws(
+    () => batch.updatePixel("g1", "20200102", 1.5),
+    error => error instanceof lib.PixelaValidationError
+  );
+  assert.strictEqual(batch.size(), 1);
+  assert.strictEqual(transport.requests.length, 1);
+});
+
+test("rejects non-finite quantity without request", () => {
+  const { pixela, transport } = createPixela({ validateGraphType: false });
+
+  assert.throws(
+    () => pixela.updatePixel("g1", "20200101", NaN),
+    error => error instanceof lib.PixelaValidationError
+  );
+  assert.strictEqual(transport.requests.length, 0);
+});
+
+test("formats quantity without exponent notation", () => {
+  assert.strictEqual(lib.validateQuantity_("quantity", 1e-7), "0.0000001");
+  assert.strictEqual(lib.validateQuantity_("quantity", -1.5e-7), "-0.00000015");
+  assert.strictEqual(
+    lib.validateQuantity_("quantity", 1e21),
+    "1000000000000000000000"
+  );
+  assert.strictEqual(
+    lib.validateQuantity_("quantity", 1.25e22),
+    "12500000000000000000000"
+  );
+  assert.strictEqual(lib.validateQuantity_("quantity", 0.5), "0.5");
+});
+
+test("sends quantity without exponent notation", () => {
+  const { pixela, transport } = createPixela({ validateGraphType: false });
+
+  pixela.updatePixel("g1", "20200101", 1e-7);
+
+  assert.strictEqual(
+    transport.requests[0].payload,
+    json({ quantity: "0.0000001" })
+  );
+});
+
+test("limits optionalData to 10240 bytes in UTF-8", () => {
+  // JSON of {"m":"..."} is 8 bytes besides the value
+  const ascii = { m: "a".repeat(10232) };
+  // "あ" is 3 bytes in UTF-8 but 1 character
+  const multibyte = { m: "あ".repeat(3411) };
+
+  assert.strictEqual(
+    lib.validateOptionalData_("optionalData", ascii),
+    JSON.stringify(ascii)
+  );
+  assert.throws(
+    () => lib.validateOptionalData_("optionalData", { m: "a".repeat(10233) }),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.problems[0].indexOf("10241 bytes") !== -1
+  );
+  assert.throws(
+    () => lib.validateOptionalData_("optionalData", multibyte),
+    error =>
+      error instanceof lib.PixelaValidationError &&
+      error.problems[0].indexOf("10241 bytes") !== -1
+  );
+});
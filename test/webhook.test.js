@@ -0,0 +1,90 @@
+const test = require("node:test");
+const assert = require("node:assert");
+const { load, createPixela, json } = require("./helper");
+
+const lib = load();
+
+const WEBHOOKS = json({
+  webhooks: [
+    { webhookHash: "h1", graphID: "g1", type: "increment" },
+    { webhookHash: "h2", graphID: "g1", type: "add", quantity: "2" },
+    { webhookHash: "h3", graphID: "g2", type: "increment" }
+  ],
+  isSuccess: true
+});
+
+test("finds webhooks by graph and type", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, WEBHOOKS);
+  transport.respondWith(200, WEBHOOKS);
+  transport.respondWith(200, WEBHOOKS);
+
+  const hashes = webhooks => webhooks.map(webhook => webhook.webhookHash);
+
+  assert.deepStrictEqual(hashes(pixela.findWebhooks()), ["h1", "h2", "h3"]);
+  assert.deepStrictEqual(hashes(pixela.findWebhooks("g1")), ["h1", "h2"]);
+  assert.deepStrictEqual(hashes(pixela.findWebhooks(undefined, "increment")), [
+    "h1",
+    "h3"
+  ]);
+});
+
+test("returns existing webhook without creating it", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, WEBHOOKS);
+  transport.respondWith(200, WEBHOOKS);
+
+  const increment = pixela.ensureWebhook("g1", "increment");
+  const add = pixela.ensureWebhook("g1", "add", 2);
+
+  assert.deepStrictEqual(
+    [increment.webhookHash, increment.created, add.webhookHash, add.created],
+    ["h1", false, "h2", false]
+  );
+  assert.ok(transport.requests.every(request => request.method === "get"));
+});
+
+test("creates webhook of different quantity once", () => {
+  const { pixela, transport } = createPixela();
+  transport.respondWith(200, WEBHOOKS);
+  transport.respondWith(
+    200,
+    json({ message: "Success.", isSuccess: true, webhookHash: "h4" })
+  );
+  transport.respondWith(
+    200,
+    json({
+      webhooks: [
+        { webhookHash: "h4", graphID: "g1", type: "add", quantity: "3" }
+      ],
+      isSuccess: true
+    })
+  );
+
+  const first = pixela.ensureWebhook("g1", "add", 3);
+  const second = pixela.ensureWebhook("g1", "add", 3);
+
+  assert.deepStrictEqual(
+    [first.webhookHash, first.created, second.webhookHash, second.created],
+    ["h4", true, "h4", false]
+  );
+  assert.deepStrictEqual(
+    transport.requests.map(request => request.method),
+    ["get", "post", "get"]
+  );
+  assert.deepStrictEqual(JSON.parse(transport.requests[1].payload), {
+    graphID: "g1",
+    type: "add",
+    quantity: "3"
+  });
+});
+
+test("validates webhook before get-webhook request", () => {
+  const { pixela, transport } = createPixela();
+
+  assert.throws(
+    () => pixela.ensureWebhook("g1", "add"),
+    error => error instanceof lib.PixelaValidationError
+  );
+  assert.strictEqual(transport.requests.length, 0);
+});